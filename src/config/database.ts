@@ -6,7 +6,7 @@
  * includes query execution helper with logging.
  */
 
-import { Pool, PoolConfig } from "pg";
+import { Pool, PoolClient, PoolConfig } from "pg";
 import dotenv from "dotenv";
 
 // Load environment variables
@@ -89,3 +89,44 @@ export const query = async (text: string, params?: any[]) => {
   }
 };
 
+
+/**
+ * Transaction Helper Function
+ * 
+ * Checks out a dedicated client from the pool and runs the callback inside
+ * BEGIN/COMMIT. Any error thrown by the callback rolls the transaction back
+ * and is rethrown to the caller. The client is always released to the pool.
+ * 
+ * All queries that belong to the unit of work must be issued through the
+ * provided client (not the shared query() helper), otherwise they run on a
+ * different connection outside the transaction.
+ * 
+ * @param callback - Function receiving the transaction-scoped client
+ * @returns Promise resolving to the callback's return value
+ * @throws Error from the callback after the transaction is rolled back
+ * 
+ * Example usage:
+ * await withTransaction(async (client) => {
+ *   await client.query('UPDATE products SET stock_quantity = stock_quantity - 1 WHERE id = $1', [id]);
+ * })
+ */
+export const withTransaction = async <T>(callback: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const result = await callback(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    // Undo every statement issued by the callback
+    try {
+      await client.query("ROLLBACK");
+    } catch (rollbackError) {
+      console.error("Rollback error", { error: rollbackError });
+    }
+    console.error("Transaction error", { error });
+    throw error;
+  } finally {
+    client.release();
+  }
+};
@@ -1,5 +1,73 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Roles table (users.role names one of these)
+CREATE TABLE IF NOT EXISTS roles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(50) UNIQUE NOT NULL,
+  description TEXT,
+  is_system BOOLEAN DEFAULT false,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Permissions table (catalogue must match PERMISSIONS in role.service.ts)
+CREATE TABLE IF NOT EXISTS permissions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) UNIQUE NOT NULL,
+  description TEXT
+);
+
+-- Role permissions table
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role_id UUID NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+  permission_id UUID NOT NULL REFERENCES permissions(id) ON DELETE CASCADE,
+  PRIMARY KEY (role_id, permission_id)
+);
+
+-- Built-in roles and permissions
+INSERT INTO roles (name, description, is_system) VALUES
+  ('customer', 'Shoppers; no staff permissions', true),
+  ('admin', 'Full access to every permission', true),
+  ('warehouse', 'Warehouse staff: view orders, update status and ship', false),
+  ('marketing', 'Marketing staff: manage coupons and view analytics', false)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO permissions (name, description) VALUES
+  ('products:write', 'Create, update and delete products'),
+  ('categories:write', 'Create, update and delete categories'),
+  ('orders:read_all', 'View every customer''s orders'),
+  ('orders:update_status', 'Change order status and cancel any order'),
+  ('orders:fulfil', 'Create shipments and mark them delivered'),
+  ('payments:read_all', 'View every payment and refund'),
+  ('payments:manage', 'Create and confirm payments for any order'),
+  ('payments:refund', 'Refund payments'),
+  ('coupons:read', 'View coupons'),
+  ('coupons:write', 'Create, update and delete coupons'),
+  ('users:read', 'View user accounts and login history'),
+  ('users:write', 'Update, deactivate, unlock and delete user accounts'),
+  ('roles:manage', 'Manage roles and assign them to users'),
+  ('analytics:read', 'View sales analytics'),
+  ('settings:manage', 'View and change application settings')
+ON CONFLICT (name) DO NOTHING;
+
+-- Admin always has every permission
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r CROSS JOIN permissions p WHERE r.name = 'admin'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r
+JOIN permissions p ON p.name IN ('orders:read_all', 'orders:update_status', 'orders:fulfil')
+WHERE r.name = 'warehouse'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id)
+SELECT r.id, p.id FROM roles r
+JOIN permissions p ON p.name IN ('coupons:read', 'coupons:write', 'analytics:read')
+WHERE r.name = 'marketing'
+ON CONFLICT DO NOTHING;
 
 -- Users table
 CREATE TABLE IF NOT EXISTS users (
@@ -9,12 +77,74 @@ CREATE TABLE IF NOT EXISTS users (
   first_name VARCHAR(100),
   last_name VARCHAR(100),
   phone VARCHAR(20),
-  role VARCHAR(20) DEFAULT 'customer' CHECK (role IN ('customer', 'admin')),
+  role VARCHAR(50) DEFAULT 'customer' REFERENCES roles(name) ON UPDATE CASCADE,
   is_active BOOLEAN DEFAULT true,
+  token_version INTEGER NOT NULL DEFAULT 0,
+  email_verified_at TIMESTAMP,
+  failed_login_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_login_at TIMESTAMP,
+  locked_until TIMESTAMP,
+  two_factor_secret VARCHAR(64),
+  two_factor_pending_secret VARCHAR(64),
+  two_factor_enabled_at TIMESTAMP,
+  two_factor_last_used_step BIGINT,
+  deleted_at TIMESTAMP, -- Archived (soft deleted); archived accounts are also deactivated
+  active_before_archive BOOLEAN, -- is_active when archived, put back on restore
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Refresh tokens table (rotating; only the SHA-256 hash is stored)
+-- Tokens issued from one login share a family_id so reuse can revoke the whole session
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  family_id UUID NOT NULL,
+  expires_at TIMESTAMP NOT NULL,
+  revoked_at TIMESTAMP,
+  replaced_by UUID REFERENCES refresh_tokens(id) ON DELETE SET NULL,
+  user_agent TEXT,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Login attempts audit table (brute-force protection counts failures per account and per IP)
+CREATE TABLE IF NOT EXISTS login_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email VARCHAR(255) NOT NULL,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  succeeded BOOLEAN NOT NULL,
+  failure_reason VARCHAR(30) CHECK (
+    failure_reason IN ('invalid_credentials', 'invalid_two_factor', 'inactive', 'locked', 'throttled')
+  ),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Two-factor recovery codes (SHA-256 hashes; each code works once)
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash VARCHAR(64) NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Single-use tokens sent by email (password reset, email verification, email change)
+-- Only the SHA-256 hash is stored; used_at is set when the token is consumed or superseded
+CREATE TABLE IF NOT EXISTS user_tokens (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(30) NOT NULL CHECK (purpose IN ('password_reset', 'email_verification', 'email_change')),
+  token_hash VARCHAR(64) UNIQUE NOT NULL,
+  new_email VARCHAR(255),
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Products table
 CREATE TABLE IF NOT EXISTS products (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -23,51 +153,247 @@ CREATE TABLE IF NOT EXISTS products (
   price DECIMAL(10, 2) NOT NULL,
   compare_at_price DECIMAL(10, 2),
   sku VARCHAR(100) UNIQUE,
-  stock_quantity INTEGER DEFAULT 0,
+  stock_quantity INTEGER DEFAULT 0 CHECK (stock_quantity >= 0),
+  reorder_threshold INTEGER NOT NULL DEFAULT 10 CHECK (reorder_threshold >= 0), -- Low stock at or below this
+  reorder_quantity INTEGER CHECK (reorder_quantity > 0), -- Suggested quantity to reorder
   image_url TEXT,
   images TEXT[], -- Array of image URLs
   category VARCHAR(100),
   tags TEXT[],
   is_active BOOLEAN DEFAULT true,
+  deleted_at TIMESTAMP, -- Archived (soft deleted)
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
--- Cart table
+-- Weighted full-text document for product search (name > tags > category > description)
+-- Declared IMMUTABLE so it can back the idx_products_search expression index
+CREATE OR REPLACE FUNCTION product_search_vector(name TEXT, description TEXT, tags TEXT[], category TEXT)
+RETURNS tsvector AS $$
+  SELECT setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+         setweight(to_tsvector('english', COALESCE(array_to_string(tags, ' '), '')), 'B') ||
+         setweight(to_tsvector('english', COALESCE(category, '')), 'C') ||
+         setweight(to_tsvector('english', COALESCE(description, '')), 'D')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Product option types (e.g. size: S, M, L)
+CREATE TABLE IF NOT EXISTS product_options (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  option_values TEXT[] NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  UNIQUE(product_id, name)
+);
+
+-- Product variants: one per option combination, with their own SKU, price and stock
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  sku VARCHAR(100) NOT NULL UNIQUE,
+  options JSONB NOT NULL, -- e.g. {"size": "M", "colour": "Black"}
+  price DECIMAL(10, 2), -- NULL sells at the product price
+  compare_at_price DECIMAL(10, 2),
+  stock_quantity INTEGER NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  image_url TEXT,
+  images TEXT[],
+  is_active BOOLEAN DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE(product_id, options)
+);
+
+-- Bulk product imports applied in the background (see product-import.service.ts)
+CREATE TABLE IF NOT EXISTS product_import_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed')),
+  format VARCHAR(10) NOT NULL CHECK (format IN ('csv', 'json')),
+  rows JSONB NOT NULL, -- Valid rows waiting to be applied: [{ row, sku, data }]
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  processed_rows INTEGER NOT NULL DEFAULT 0,
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]', -- [{ row, sku, errors: [{ path, message }] }]
+  error_message TEXT, -- Why a failed job stopped
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  started_at TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+-- Guest carts table (anonymous carts, addressed by a signed cart token)
+CREATE TABLE IF NOT EXISTS guest_carts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Cart table (items belong to either a user or an anonymous guest cart)
 CREATE TABLE IF NOT EXISTS cart (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  guest_cart_id UUID REFERENCES guest_carts(id) ON DELETE CASCADE,
   product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE, -- Required for products with variants
   quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  UNIQUE(user_id, product_id)
+  CHECK ((user_id IS NULL) <> (guest_cart_id IS NULL))
+  -- One line per product (or per variant) in each cart: see the idx_cart_*_unique indexes
+);
+
+-- Coupons table
+CREATE TABLE IF NOT EXISTS coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code VARCHAR(50) NOT NULL UNIQUE,
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'buy_x_get_y')),
+  discount_value DECIMAL(10, 2) NOT NULL,
+  min_purchase_amount DECIMAL(10, 2) DEFAULT 0,
+  max_discount_amount DECIMAL(10, 2),
+  usage_limit INTEGER,
+  used_count INTEGER DEFAULT 0,
+  per_user_limit INTEGER, -- Maximum redemptions per customer
+  first_order_only BOOLEAN DEFAULT false,
+  product_ids UUID[], -- Restrict discount to these products
+  category_ids UUID[], -- Restrict discount to products in these categories
+  buy_quantity INTEGER, -- buy_x_get_y: units to buy
+  get_quantity INTEGER, -- buy_x_get_y: units discounted by discount_value percent
+  valid_from TIMESTAMP NOT NULL,
+  valid_until TIMESTAMP NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Orders table
 CREATE TABLE IF NOT EXISTS orders (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE, -- NULL for guest checkout
+  guest_email VARCHAR(255), -- Contact email for guest orders
+  subtotal_amount DECIMAL(10, 2),
+  discount_amount DECIMAL(10, 2) DEFAULT 0,
   total_amount DECIMAL(10, 2) NOT NULL,
+  currency VARCHAR(3) DEFAULT 'USD',
+  coupon_id UUID REFERENCES coupons(id) ON DELETE SET NULL,
+  coupon_code VARCHAR(50), -- Snapshot of the code used at checkout
   status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'shipped', 'delivered', 'cancelled')),
   shipping_address JSONB NOT NULL,
   billing_address JSONB,
-  payment_status VARCHAR(50) DEFAULT 'pending' CHECK (payment_status IN ('pending', 'paid', 'failed', 'refunded')),
+  payment_status VARCHAR(50) DEFAULT 'pending' CHECK (payment_status IN ('pending', 'paid', 'failed', 'partially_refunded', 'refunded', 'disputed')),
   payment_method VARCHAR(50),
+  processing_at TIMESTAMP,
+  shipped_at TIMESTAMP,
+  delivered_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  refund_required_reason TEXT, -- Why captured money has to be refunded (e.g. stock sold out after the hold expired); cleared by a refund
+  refund_required_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Order status history table (one row per status change, including creation)
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status VARCHAR(50), -- NULL for the initial status
+  to_status VARCHAR(50) NOT NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Order items table
 CREATE TABLE IF NOT EXISTS order_items (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
   product_id UUID NOT NULL REFERENCES products(id),
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  sku VARCHAR(100), -- Snapshot of the product or variant SKU
+  variant_options JSONB, -- Snapshot of the variant's options
   quantity INTEGER NOT NULL,
   price DECIMAL(10, 2) NOT NULL,
+  discount_amount DECIMAL(10, 2) DEFAULT 0, -- Coupon discount allocated to this line
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Stock held for orders awaiting payment (see inventory.service.ts)
+CREATE TABLE IF NOT EXISTS inventory_reservations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'committed', 'released', 'expired')),
+  expires_at TIMESTAMP NOT NULL,
+  committed_at TIMESTAMP,
+  released_at TIMESTAMP,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Append-only stock ledger: every change to a product's or variant's stock_quantity is one row
+-- (see inventory.service.ts). stock_quantity is the running total of quantity_change.
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+  type VARCHAR(20) NOT NULL CHECK (type IN ('sale', 'return', 'restock', 'adjustment', 'damage')),
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+  balance_after INTEGER NOT NULL, -- stock_quantity of the variant (or product) after this movement
+  reason TEXT,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL, -- NULL for system movements (checkout, payments)
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Raised when an order takes a product's stock to its reorder threshold or below
+CREATE TABLE IF NOT EXISTS low_stock_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  stock_quantity INTEGER NOT NULL, -- Stock right after the order
+  reorder_threshold INTEGER NOT NULL,
+  notified_at TIMESTAMP, -- When the alert email was sent
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Coupon redemptions table (one per order that used a coupon)
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  released_at TIMESTAMP, -- Set when the order is cancelled or refunded
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Shipments table (an order can ship in several parcels)
+CREATE TABLE IF NOT EXISTS shipments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  carrier VARCHAR(100) NOT NULL,
+  tracking_number VARCHAR(255) NOT NULL,
+  tracking_url TEXT,
+  status VARCHAR(50) DEFAULT 'shipped' CHECK (status IN ('shipped', 'delivered')),
+  shipped_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  delivered_at TIMESTAMP,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Shipment items table (which order lines, and how many units, are in each parcel)
+CREATE TABLE IF NOT EXISTS shipment_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  UNIQUE(shipment_id, order_item_id)
+);
+
 -- Payments table
 CREATE TABLE IF NOT EXISTS payments (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -75,14 +401,38 @@ CREATE TABLE IF NOT EXISTS payments (
   amount DECIMAL(10, 2) NOT NULL,
   currency VARCHAR(3) DEFAULT 'USD',
   payment_method VARCHAR(50) NOT NULL,
-  payment_intent_id VARCHAR(255), -- Stripe payment intent ID
-  status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded')),
+  provider VARCHAR(50) DEFAULT 'stripe', -- Payment provider that processed this payment (stripe, fake, cash_on_delivery)
+  payment_intent_id VARCHAR(255), -- Provider payment intent ID
+  status VARCHAR(50) DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'partially_refunded', 'refunded', 'disputed', 'voided')),
   transaction_id VARCHAR(255),
   metadata JSONB,
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Refunds table (ledger of every refund issued against a payment)
+CREATE TABLE IF NOT EXISTS refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  line_items JSONB, -- [{ orderItemId, productId, quantity, amount }] when specific lines were refunded
+  restocked BOOLEAN DEFAULT false,
+  actor_id UUID REFERENCES users(id) ON DELETE SET NULL, -- Admin who issued the refund
+  provider_refund_id VARCHAR(255),
+  status VARCHAR(50) DEFAULT 'succeeded', -- 'requested' until the provider answers, then its status (or 'failed')
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Payment events table (processed payment provider webhook events, for idempotency)
+CREATE TABLE IF NOT EXISTS payment_events (
+  id VARCHAR(255) PRIMARY KEY, -- Provider event ID (e.g. evt_...)
+  type VARCHAR(100) NOT NULL,
+  payload JSONB,
+  processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Categories table
 CREATE TABLE IF NOT EXISTS categories (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -91,23 +441,7 @@ CREATE TABLE IF NOT EXISTS categories (
   slug VARCHAR(255) UNIQUE,
   image_url TEXT,
   is_active BOOLEAN DEFAULT true,
-  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-);
-
--- Coupons table
-CREATE TABLE IF NOT EXISTS coupons (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  code VARCHAR(50) NOT NULL UNIQUE,
-  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
-  discount_value DECIMAL(10, 2) NOT NULL,
-  min_purchase_amount DECIMAL(10, 2) DEFAULT 0,
-  max_discount_amount DECIMAL(10, 2),
-  usage_limit INTEGER,
-  used_count INTEGER DEFAULT 0,
-  valid_from TIMESTAMP NOT NULL,
-  valid_until TIMESTAMP NOT NULL,
-  is_active BOOLEAN DEFAULT true,
+  deleted_at TIMESTAMP, -- Archived (soft deleted)
   created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
@@ -124,17 +458,55 @@ CREATE TABLE IF NOT EXISTS settings (
 
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user_id ON refresh_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_family_id ON refresh_tokens(family_id);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_ip_address ON login_attempts(ip_address, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_email ON login_attempts(email, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_attempts_user_id ON login_attempts(user_id);
+CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user_id ON two_factor_recovery_codes(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_tokens_user_id ON user_tokens(user_id, purpose);
 CREATE INDEX IF NOT EXISTS idx_products_category ON products(category);
 CREATE INDEX IF NOT EXISTS idx_products_is_active ON products(is_active);
+CREATE INDEX IF NOT EXISTS idx_products_archived ON products(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_categories_archived ON categories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_users_archived ON users(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_products_search ON products
+  USING GIN (product_search_vector(name, description, tags, category));
+CREATE INDEX IF NOT EXISTS idx_products_name_trgm ON products USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_import_jobs_created_at ON product_import_jobs(created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_cart_user_id ON cart(user_id);
+CREATE INDEX IF NOT EXISTS idx_cart_guest_cart_id ON cart(guest_cart_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_user_product_unique ON cart(user_id, product_id) WHERE variant_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_user_variant_unique ON cart(user_id, variant_id) WHERE variant_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_guest_product_unique ON cart(guest_cart_id, product_id) WHERE variant_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_guest_variant_unique ON cart(guest_cart_id, variant_id) WHERE variant_id IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id);
 CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+CREATE INDEX IF NOT EXISTS idx_orders_refund_required ON orders(refund_required_at) WHERE refund_required_at IS NOT NULL;
 CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON order_items(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_order_id ON inventory_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_reservations_active ON inventory_reservations(product_id, variant_id, expires_at)
+  WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_id ON inventory_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant_id ON inventory_movements(variant_id);
+CREATE INDEX IF NOT EXISTS idx_low_stock_alerts_product_id ON low_stock_alerts(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_low_stock_alerts_pending ON low_stock_alerts(created_at) WHERE notified_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipments_order_id ON shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment_id ON shipment_items(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_order_item_id ON shipment_items(order_item_id);
 CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
 CREATE INDEX IF NOT EXISTS idx_payments_payment_intent_id ON payments(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_order_id ON refunds(order_id);
 CREATE INDEX IF NOT EXISTS idx_categories_slug ON categories(slug);
 CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(code);
 CREATE INDEX IF NOT EXISTS idx_coupons_is_active ON coupons(is_active);
+CREATE INDEX IF NOT EXISTS idx_orders_coupon_id ON orders(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_id ON coupon_redemptions(coupon_id);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_user_id ON coupon_redemptions(user_id);
 CREATE INDEX IF NOT EXISTS idx_settings_key ON settings(key);
 
 -- Function to update updated_at timestamp
@@ -150,15 +522,24 @@ $$ language 'plpgsql';
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_roles_updated_at BEFORE UPDATE ON roles
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_products_updated_at BEFORE UPDATE ON products
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_product_variants_updated_at BEFORE UPDATE ON product_variants
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_cart_updated_at BEFORE UPDATE ON cart
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
 CREATE TRIGGER update_orders_updated_at BEFORE UPDATE ON orders
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_shipments_updated_at BEFORE UPDATE ON shipments
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON payments
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
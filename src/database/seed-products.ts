@@ -15,8 +15,30 @@ interface ProductSeed {
   category: string;
   tags?: string[];
   is_active: boolean;
+  // Option types; one variant is seeded per combination, sharing the stock
+  options?: { name: string; values: string[] }[];
 }
 
+// Every combination of option values, e.g. [{ size: "S", colour: "Black" }, ...]
+const optionCombinations = (options: { name: string; values: string[] }[]) =>
+  options.reduce<Record<string, string>[]>(
+    (combinations, option) =>
+      combinations.flatMap((combination) => option.values.map((value) => ({ ...combination, [option.name]: value }))),
+    [{}]
+  );
+
+// Record seeded stock in the inventory ledger so stock_quantity matches its movements
+const recordSeedStock = async (productId: string, variantId: string | null, quantity: number) => {
+  if (quantity === 0) {
+    return;
+  }
+  await query(
+    `INSERT INTO inventory_movements (product_id, variant_id, type, quantity_change, balance_after, reason)
+     VALUES ($1, $2, 'restock', $3, $3, 'Seed data')`,
+    [productId, variantId, quantity]
+  );
+};
+
 const products: ProductSeed[] = [
   // Men's Products
   {
@@ -31,6 +53,7 @@ const products: ProductSeed[] = [
     category: "Men",
     tags: ["hat", "accessories", "streetwear", "unisex"],
     is_active: true,
+    options: [{ name: "colour", values: ["Black", "Beige"] }],
   },
   {
     name: "Neon Graphic Tee",
@@ -44,6 +67,10 @@ const products: ProductSeed[] = [
     category: "Men",
     tags: ["t-shirt", "graphic", "casual", "neon"],
     is_active: true,
+    options: [
+      { name: "size", values: ["S", "M", "L", "XL"] },
+      { name: "colour", values: ["Pink", "Green"] },
+    ],
   },
   {
     name: "Vintage Sunglasses",
@@ -243,6 +270,7 @@ const products: ProductSeed[] = [
     category: "Children",
     tags: ["t-shirt", "kids", "casual", "comfortable"],
     is_active: true,
+    options: [{ name: "size", values: ["4-5Y", "6-7Y", "8-9Y", "10-11Y"] }],
   },
   {
     name: "Children's Sneakers",
@@ -348,7 +376,7 @@ async function seedProducts() {
       }
 
       // Use category name (products table stores category as VARCHAR, not foreign key)
-      await query(
+      const insertedProduct = await query(
         `INSERT INTO products (
           name, description, price, compare_at_price, sku, stock_quantity,
           image_url, images, category, tags, is_active
@@ -369,6 +397,38 @@ async function seedProducts() {
         ]
       );
 
+      const productId = insertedProduct.rows[0].id;
+
+      // Seed option types and one variant per combination, splitting the stock evenly
+      if (product.options) {
+        for (const [position, option] of product.options.entries()) {
+          await query(
+            "INSERT INTO product_options (product_id, name, option_values, position) VALUES ($1, $2, $3, $4)",
+            [productId, option.name, option.values, position]
+          );
+        }
+
+        const combinations = optionCombinations(product.options);
+        const stockPerVariant = Math.floor(product.stock_quantity / combinations.length);
+        const remainder = product.stock_quantity - stockPerVariant * combinations.length;
+
+        for (const [position, combination] of combinations.entries()) {
+          const skuSuffix = Object.values(combination)
+            .map((value) => value.toUpperCase().replace(/[^A-Z0-9]/g, ""))
+            .join("-");
+          const variantStock = stockPerVariant + (position === 0 ? remainder : 0);
+          const insertedVariant = await query(
+            `INSERT INTO product_variants (product_id, sku, options, stock_quantity, position)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING id`,
+            [productId, `${product.sku}-${skuSuffix}`, JSON.stringify(combination), variantStock, position]
+          );
+          await recordSeedStock(productId, insertedVariant.rows[0].id, variantStock);
+        }
+      } else {
+        await recordSeedStock(productId, null, product.stock_quantity);
+      }
+
       inserted++;
     }
 
@@ -25,8 +25,15 @@ import couponRoutes from "./routes/coupon.routes";
 import analyticsRoutes from "./routes/analytics.routes";
 import settingsRoutes from "./routes/settings.routes";
 import userRoutes from "./routes/user.routes";
+import roleRoutes from "./routes/role.routes";
 import paymentAdminRoutes from "./routes/payment-admin.routes";
+import inventoryAdminRoutes from "./routes/inventory-admin.routes";
+import productAdminRoutes from "./routes/product-admin.routes";
+import paymentWebhookRoutes from "./routes/payment-webhook.routes";
 import { pool } from "./config/database";
+import { orderService } from "./services/order.service";
+import { inventoryService } from "./services/inventory.service";
+import { productImportService } from "./services/product-import.service";
 
 // Load environment variables from .env file
 dotenv.config();
@@ -80,6 +87,11 @@ app.use(helmet());
 app.use(cors());
 // Morgan: HTTP request logger middleware for development (logs requests to console)
 app.use(morgan("dev"));
+// Payment webhooks: Registered before the JSON parser so the raw body is kept for signature verification
+app.use("/api/payments/webhook", express.raw({ type: "application/json" }), paymentWebhookRoutes);
+// Bulk product import and export: Registered before the JSON parser so import files stay text;
+// the router reads the body itself, only after authentication
+app.use("/api/admin/products", productAdminRoutes);
 // Express JSON parser: Parses incoming JSON payloads
 app.use(express.json());
 // Express URL-encoded parser: Parses URL-encoded payloads (extended: true allows rich objects)
@@ -125,6 +137,7 @@ app.get("/api", (req: Request, res: Response) => {
       analytics: "/api/analytics",
       settings: "/api/settings",
       users: "/api/users",
+      roles: "/api/roles",
     },
   });
 });
@@ -144,7 +157,9 @@ app.use("/api/coupons", couponRoutes);        // Coupon system: discounts and pr
 app.use("/api/analytics", analyticsRoutes);   // Analytics: sales data, reports, statistics
 app.use("/api/settings", settingsRoutes);     // Application settings: configuration management
 app.use("/api/users", userRoutes);            // User management: user CRUD operations
+app.use("/api/roles", roleRoutes);            // Roles and permissions: staff access control
 app.use("/api/admin/payments", paymentAdminRoutes); // Admin payment operations: refunds, adjustments
+app.use("/api/admin/inventory", inventoryAdminRoutes); // Inventory reports: low stock, reorder alerts
 
 /**
  * Global Error Handling Middleware
@@ -181,3 +196,42 @@ app.listen(PORT, () => {
   console.log(`📍 API: http://localhost:${PORT}/api`);
 });
 
+/**
+ * Product Import Recovery
+ * Import jobs run in-process, so jobs left pending by a restart are run now
+ * and jobs that were running are marked failed
+ */
+productImportService
+  .recoverJobs()
+  .then(({ resumed, failed }) => {
+    if (resumed > 0 || failed > 0) {
+      console.log(`📦 Resumed ${resumed} and failed ${failed} interrupted product import job(s)`);
+    }
+  })
+  .catch((error) => console.error("Product import recovery failed:", error));
+
+/**
+ * Inventory Sweeper
+ * Periodically cancels unpaid pending orders whose stock holds have expired,
+ * which makes the held units available again, and emails pending low-stock alerts
+ */
+const RESERVATION_SWEEP_INTERVAL_SECONDS = parseInt(process.env.INVENTORY_SWEEP_INTERVAL_SECONDS || "60");
+setInterval(() => {
+  orderService
+    .expireUnpaidOrders()
+    .then((expired) => {
+      if (expired > 0) {
+        console.log(`🧹 Cancelled ${expired} unpaid order(s) with expired stock holds`);
+      }
+    })
+    .catch((error) => console.error("Reservation sweep failed:", error));
+  inventoryService
+    .sendLowStockAlerts()
+    .then((sent) => {
+      if (sent > 0) {
+        console.log(`📉 Sent ${sent} low-stock alert(s)`);
+      }
+    })
+    .catch((error) => console.error("Low-stock alert dispatch failed:", error));
+}, RESERVATION_SWEEP_INTERVAL_SECONDS * 1000);
+
@@ -2,11 +2,13 @@
  * Authentication Middleware
  * 
  * Provides middleware functions for protecting routes that require authentication
- * and authorization. Verifies JWT tokens and checks user roles.
+ * and authorization. Verifies JWT tokens and checks user roles and permissions.
  */
 
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { query } from "../config/database";
+import type { Permission } from "../services/role.service";
 
 /**
  * Extended Request interface that includes user information
@@ -17,9 +19,56 @@ export interface AuthRequest extends Request {
     id: string;
     email: string;
     role: string;
+    permissions: string[]; // Granted through the user's role
   };
 }
 
+/**
+ * Resolve the user behind an access token
+ * 
+ * Verifies the token signature and expiration, then loads the user so that
+ * deactivated accounts, role changes and logout-all take effect immediately
+ * instead of when the token expires.
+ * 
+ * @returns User info with the current role and its permissions, or null if the token is no longer valid
+ * @throws Error if the token is invalid or expired
+ */
+const resolveTokenUser = async (token: string): Promise<AuthRequest["user"] | null> => {
+  const jwtSecret = process.env.JWT_SECRET || "your-secret-key-change-in-production";
+  const decoded = jwt.verify(token, jwtSecret) as {
+    id: string;
+    email: string;
+    role: string;
+    tv?: number;
+    purpose?: string;
+  };
+
+  // Interim login tokens (e.g. waiting for a 2FA code) are not access tokens
+  if (decoded.purpose) {
+    throw new Error("Not an access token");
+  }
+
+  const result = await query(
+    `SELECT u.id, u.email, u.role, u.is_active, u.token_version,
+            COALESCE(array_agg(p.name) FILTER (WHERE p.name IS NOT NULL), '{}') AS permissions
+     FROM users u
+     LEFT JOIN roles r ON r.name = u.role
+     LEFT JOIN role_permissions rp ON rp.role_id = r.id
+     LEFT JOIN permissions p ON p.id = rp.permission_id
+     WHERE u.id = $1
+     GROUP BY u.id`,
+    [decoded.id]
+  );
+  const user = result.rows[0];
+
+  // Missing, deactivated, or tokens revoked by logout-all (token version bumped)
+  if (!user || !user.is_active || (decoded.tv || 0) !== (user.token_version || 0)) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email, role: user.role, permissions: user.permissions };
+};
+
 /**
  * Authentication Middleware
  * 
@@ -33,31 +82,60 @@ export interface AuthRequest extends Request {
  * Process:
  * 1. Extract token from Authorization header (Bearer token format)
  * 2. Verify token signature and expiration using JWT_SECRET
- * 3. Attach decoded user info (id, email, role) to req.user
- * 4. Call next() to continue request processing
+ * 3. Load the user and check the account is active and the token not revoked
+ * 4. Attach user info (id, email, current role) to req.user
+ * 5. Call next() to continue request processing
  * 
- * Returns 401 if token is missing, invalid, or expired
+ * Returns 401 if token is missing, invalid, expired or revoked
  */
-export const authenticate = (req: AuthRequest, res: Response, next: NextFunction) => {
-  try {
-    // Extract token from "Bearer <token>" format
-    const token = req.headers.authorization?.split(" ")[1];
+export const authenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  // Extract token from "Bearer <token>" format
+  const token = req.headers.authorization?.split(" ")[1];
 
-    if (!token) {
-      return res.status(401).json({ error: "Authentication required" });
-    }
-
-    // Verify token signature and expiration
-    const jwtSecret = process.env.JWT_SECRET || "your-secret-key-change-in-production";
-    const decoded = jwt.verify(token, jwtSecret) as { id: string; email: string; role: string };
+  if (!token) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
 
-    // Attach user information to request object for use in route handlers
-    req.user = decoded;
-    next();
+  let user: AuthRequest["user"] | null;
+  try {
+    user = await resolveTokenUser(token);
   } catch (error) {
     // Token is invalid, expired, or malformed
     return res.status(401).json({ error: "Invalid or expired token" });
   }
+
+  if (!user) {
+    return res.status(401).json({ error: "Token has been revoked" });
+  }
+
+  // Attach user information to request object for use in route handlers
+  req.user = user;
+  next();
+};
+
+/**
+ * Optional Authentication Middleware
+ * 
+ * Same as authenticate, but lets anonymous requests through.
+ * Attaches req.user when a valid Bearer token is present; a missing,
+ * invalid or revoked token simply leaves req.user undefined.
+ * 
+ * Used by public endpoints whose response depends on who is asking
+ * (e.g. coupon validation with per-customer limits).
+ */
+export const optionalAuthenticate = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  const token = req.headers.authorization?.split(" ")[1];
+
+  if (token) {
+    try {
+      req.user = (await resolveTokenUser(token)) || undefined;
+    } catch (error) {
+      // Treat an invalid token as an anonymous request
+      req.user = undefined;
+    }
+  }
+
+  next();
 };
 
 /**
@@ -92,3 +170,39 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+/**
+ * Check whether the authenticated user's role grants a permission
+ * Used inside handlers where access widens rather than being denied
+ * (e.g. staff with orders:read_all see every order, customers only their own).
+ */
+export const hasPermission = (user: AuthRequest["user"], permission: Permission) =>
+  !!user && user.permissions.includes(permission);
+
+/**
+ * Permission Authorization Middleware Factory
+ * 
+ * Creates middleware that checks if the authenticated user's role grants
+ * every listed permission. Must be used after authenticate middleware.
+ * 
+ * @param permissions - Required permissions (e.g., 'orders:update_status')
+ * @returns Middleware function that checks user permissions
+ * 
+ * Usage:
+ * router.post('/:id/refund', authenticate, authorizePermission('payments:refund'), handler)
+ * 
+ * Returns 401 if user is not authenticated
+ * Returns 403 if any permission is missing
+ */
+export const authorizePermission = (...permissions: Permission[]) => {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (!permissions.every((permission) => hasPermission(req.user, permission))) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
+
+    next();
+  };
+};
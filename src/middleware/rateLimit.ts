@@ -76,11 +76,19 @@ export const apiLimiter = createRateLimiter({
  * Purpose: Prevents brute force attacks on authentication.
  * Restrictive to make automated password guessing impractical.
  * Successful requests don't count toward limit (skipSuccessfulRequests: true).
- * 
- * NOTE: Currently DISABLED - always returns no-op middleware
- * To re-enable: Change to use createRateLimiter() instead of noOpLimiter
+ * DISABLED in development mode; login keeps its own per-account and per-IP
+ * failure tracking (see loginAttemptService) either way.
  */
-export const authLimiter = noOpLimiter; // Completely disabled - no rate limiting on auth endpoints
+export const authLimiter = createRateLimiter({
+  windowMs: 15 * 60 * 1000, // 15 minutes time window
+  max: parseInt(process.env.AUTH_RATE_LIMIT || "100"), // Configurable limit (default: 100)
+  skipSuccessfulRequests: true,
+  message: {
+    error: "Too many authentication attempts, please try again later.",
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
 
 /**
  * Payment Endpoint Rate Limiter
@@ -1,6 +1,6 @@
 import { Router, Response } from "express";
 import { analyticsService } from "../services/analytics.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
 import { adminLimiter } from "../middleware/rateLimit";
 import { cacheMiddleware } from "../middleware/cache";
 
@@ -8,7 +8,7 @@ const router = Router();
 
 // All analytics routes require admin authentication
 router.use(authenticate);
-router.use(authorize("admin"));
+router.use(authorizePermission("analytics:read"));
 router.use(adminLimiter);
 
 // Get dashboard stats - cached for 2 minutes
@@ -6,28 +6,68 @@
  * All routes use rate limiting to prevent brute force attacks.
  */
 
-import { Router, Request, Response } from "express";
-import { authService, registerSchema, loginSchema } from "../services/auth.service";
+import { Router, Request, Response, NextFunction } from "express";
+import { ZodError } from "zod";
+import {
+  authService,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  changePasswordSchema,
+  changeEmailSchema,
+  challengeTokenSchema,
+  SessionInfo,
+} from "../services/auth.service";
+import {
+  twoFactorService,
+  twoFactorCodeSchema,
+  secondFactorSchema,
+  disableTwoFactorSchema,
+} from "../services/two-factor.service";
+import { LoginThrottledError } from "../services/login-attempt.service";
+import { CART_TOKEN_HEADER } from "../services/cart.service";
 import { authenticate, AuthRequest } from "../middleware/auth";
-// Rate limiting removed for development - uncomment to re-enable
-// import { authLimiter } from "../middleware/rateLimit";
+import { authLimiter } from "../middleware/rateLimit";
 
 const router = Router();
 
+/**
+ * Authenticate with an access token, unless the body carries a 2FA setup
+ * challenge token (admins who must enrol before their first full login)
+ */
+const authenticateOrSetupChallenge = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (req.body?.challengeToken) {
+    return next();
+  }
+  return authenticate(req, res, next);
+};
+
+/**
+ * Client details recorded with each refresh token
+ */
+const sessionInfo = (req: Request): SessionInfo => ({
+  userAgent: req.headers["user-agent"],
+  ipAddress: req.ip,
+  cartToken: req.header(CART_TOKEN_HEADER),
+});
+
 /**
  * POST /register
  * Register a new user account
  * 
  * Validates input data using Zod schema, checks for existing email,
- * hashes password, creates user record, and returns JWT token.
+ * hashes password, creates user record, and returns access and refresh tokens.
  * Uses strict rate limiting to prevent account creation abuse.
  */
-router.post("/register", async (req: Request, res: Response) => {
+router.post("/register", authLimiter, async (req: Request, res: Response) => {
   try {
     // Validate request body against schema (email, password, optional name/phone)
     const validatedData = registerSchema.parse(req.body);
-    // Register user and get JWT token
-    const result = await authService.register(validatedData);
+    // Register user and get access and refresh tokens
+    const result = await authService.register(validatedData, sessionInfo(req));
     res.status(201).json(result);
   } catch (error: any) {
     // Handle validation errors from Zod
@@ -41,29 +81,192 @@ router.post("/register", async (req: Request, res: Response) => {
 
 /**
  * POST /login
- * Authenticate user and return JWT token
+ * Authenticate user and return access and refresh tokens
  * 
  * Validates credentials, checks if account is active, verifies password,
- * and returns user data with JWT token for subsequent authenticated requests.
+ * and returns user data with a short-lived access token for subsequent
+ * authenticated requests and a refresh token to renew it.
  * Uses strict rate limiting to prevent brute force login attempts.
  */
-router.post("/login", async (req: Request, res: Response) => {
+router.post("/login", authLimiter, async (req: Request, res: Response) => {
   try {
     // Validate request body (email and password required)
     const validatedData = loginSchema.parse(req.body);
-    // Authenticate user and get JWT token
-    const result = await authService.login(validatedData);
+    // Authenticate user and get access and refresh tokens
+    const result = await authService.login(validatedData, sessionInfo(req));
     res.json(result);
   } catch (error: any) {
     // Handle validation errors
     if (error.name === "ZodError") {
       return res.status(400).json({ error: "Validation error", details: error.errors });
     }
+    // Too many failed attempts from this IP or on this account
+    if (error.name === "LoginThrottledError") {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({ error: error.message, retryAfter: error.retryAfterSeconds });
+    }
     // Handle authentication failures (invalid credentials, inactive account)
     res.status(401).json({ error: error.message });
   }
 });
 
+/**
+ * POST /login/2fa
+ * Second login step for accounts with two-factor authentication
+ * 
+ * Takes the challengeToken returned by /login and a code from the
+ * authenticator app (or a recovery code). Wrong codes count as failed logins.
+ */
+router.post("/login/2fa", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const { challengeToken } = challengeTokenSchema.parse(req.body);
+    const factor = secondFactorSchema.parse(req.body);
+    const result = await authService.verifyTwoFactorLogin(challengeToken, factor, sessionInfo(req));
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof LoginThrottledError) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({ error: message, retryAfter: error.retryAfterSeconds });
+    }
+    res.status(401).json({ error: message });
+  }
+});
+
+/**
+ * POST /refresh
+ * Exchange a refresh token for a new access token
+ * 
+ * The refresh token is rotated: the one presented is revoked and a new one
+ * is returned. Reusing an old refresh token revokes the whole session.
+ */
+router.post("/refresh", async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    const result = await authService.refresh(refreshToken, sessionInfo(req));
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    // Invalid, expired, revoked or reused refresh token
+    res.status(401).json({ error: message });
+  }
+});
+
+/**
+ * POST /logout
+ * End the session that owns the given refresh token
+ * 
+ * Does not require an access token so clients can log out after it expires.
+ */
+router.post("/logout", async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+    const result = await authService.logout(refreshToken);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /logout-all
+ * Log out of every device
+ * 
+ * Revokes all refresh tokens and invalidates access tokens already issued
+ * to the authenticated user (including the one used for this request).
+ */
+router.post("/logout-all", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await authService.logoutAll(req.user!.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /forgot-password
+ * Email a password reset link
+ * 
+ * Responds the same way whether or not the email is registered.
+ */
+router.post("/forgot-password", authLimiter, async (req: Request, res: Response) => {
+  try {
+    const { email } = forgotPasswordSchema.parse(req.body);
+    const result = await authService.forgotPassword(email);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /reset-password
+ * Set a new password using the token from the reset email
+ * 
+ * Tokens are single-use and expire. All existing sessions are logged out.
+ */
+router.post("/reset-password", async (req: Request, res: Response) => {
+  try {
+    const { token, password } = resetPasswordSchema.parse(req.body);
+    const result = await authService.resetPassword(token, password);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /verify-email
+ * Confirm the account's email address using the token from the verification email
+ */
+router.post("/verify-email", async (req: Request, res: Response) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    const result = await authService.verifyEmail(token);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /verify-email/resend
+ * Send a new verification email to the authenticated user
+ */
+router.post("/verify-email/resend", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await authService.sendVerificationEmail(req.user!.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
 /**
  * GET /me
  * Get current authenticated user's information
@@ -87,6 +290,7 @@ router.get("/me", authenticate, async (req: AuthRequest, res: Response) => {
       lastName: user.last_name,
       phone: user.phone,
       role: user.role,
+      emailVerified: !!user.email_verified_at,
     });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -110,5 +314,165 @@ router.put("/profile", authenticate, async (req: AuthRequest, res: Response) =>
   }
 });
 
+/**
+ * PUT /password
+ * Change the authenticated user's password
+ * 
+ * Requires the current password. Logs out all other sessions and returns
+ * new tokens for the current device.
+ */
+router.put("/password", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = changePasswordSchema.parse(req.body);
+    const result = await authService.changePassword(req.user!.id, validatedData, sessionInfo(req));
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /email
+ * Request an email change for the authenticated user
+ * 
+ * Requires the current password. A confirmation link is sent to the new
+ * address; the email only changes once that link is used.
+ */
+router.post("/email", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = changeEmailSchema.parse(req.body);
+    const result = await authService.requestEmailChange(req.user!.id, validatedData);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /email/confirm
+ * Complete an email change with the token sent to the new address
+ */
+router.post("/email/confirm", async (req: Request, res: Response) => {
+  try {
+    const { token } = verifyEmailSchema.parse(req.body);
+    const result = await authService.confirmEmailChange(token);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * GET /2fa
+ * Two-factor authentication status of the authenticated user
+ */
+router.get("/2fa", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await twoFactorService.getStatus(req.user!.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * POST /2fa/setup
+ * Start two-factor enrolment
+ * 
+ * Returns a secret and otpauth:// URI for the authenticator app. Accepts an
+ * access token, or the challengeToken from a login that requires 2FA setup.
+ */
+router.post("/2fa/setup", authenticateOrSetupChallenge, async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = req.body?.challengeToken
+      ? (await authService.verifyChallengeToken(req.body.challengeToken, "two_factor_setup")).id
+      : req.user!.id;
+    const result = await twoFactorService.beginSetup(userId);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /2fa/confirm
+ * Finish two-factor enrolment with a code from the authenticator app
+ * 
+ * Returns recovery codes (shown once). When called with a setup challengeToken,
+ * the pending login is completed and tokens are returned as well.
+ */
+router.post("/2fa/confirm", authenticateOrSetupChallenge, async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const result = req.body?.challengeToken
+      ? await authService.completeTwoFactorSetupLogin(req.body.challengeToken, code, sessionInfo(req))
+      : await twoFactorService.confirmSetup(req.user!.id, code);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error instanceof LoginThrottledError) {
+      res.setHeader("Retry-After", String(error.retryAfterSeconds));
+      return res.status(429).json({ error: message, retryAfter: error.retryAfterSeconds });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /2fa/disable
+ * Turn off two-factor authentication
+ * 
+ * Requires the password and a current code or recovery code.
+ * Not allowed when 2FA is mandatory for the user's role.
+ */
+router.post("/2fa/disable", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = disableTwoFactorSchema.parse(req.body);
+    const result = await twoFactorService.disable(req.user!.id, validatedData);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /2fa/recovery-codes
+ * Replace the recovery codes (requires a current authenticator code)
+ */
+router.post("/2fa/recovery-codes", authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const result = await twoFactorService.regenerateRecoveryCodes(req.user!.id, code);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
 export default router;
 
@@ -1,17 +1,37 @@
 import { Router, Response } from "express";
-import { cartService, addToCartSchema, updateCartItemSchema } from "../services/cart.service";
-import { authenticate, AuthRequest } from "../middleware/auth";
+import {
+  cartService,
+  addToCartSchema,
+  updateCartItemSchema,
+  CartOwner,
+  CART_TOKEN_HEADER,
+} from "../services/cart.service";
+import { optionalAuthenticate, AuthRequest } from "../middleware/auth";
 
 const router = Router();
 
-// All cart routes require authentication
-router.use(authenticate);
+// Cart routes work for signed-in users and for guests holding a cart token
+router.use(optionalAuthenticate);
 
-// Get cart
+// Signed-in users use their own cart; guests the cart named by the X-Cart-Token header
+const resolveCartOwner = async (req: AuthRequest): Promise<CartOwner | null> => {
+  if (req.user) {
+    return { userId: req.user.id };
+  }
+  const cartToken = req.header(CART_TOKEN_HEADER);
+  const guestCartId = cartToken ? await cartService.resolveGuestCart(cartToken) : null;
+  return guestCartId ? { guestCartId } : null;
+};
+
+// Get cart (a guest without a valid cart token has an empty cart)
 router.get("/", async (req: AuthRequest, res: Response) => {
   try {
-    const cart = await cartService.getCart(req.user!.id);
-    const total = await cartService.getCartTotal(req.user!.id);
+    const owner = await resolveCartOwner(req);
+    if (!owner) {
+      return res.json({ items: [], total: 0 });
+    }
+    const cart = await cartService.getCart(owner);
+    const total = await cartService.getCartTotal(owner);
     res.json({ items: cart, total });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -19,11 +39,21 @@ router.get("/", async (req: AuthRequest, res: Response) => {
 });
 
 // Add item to cart
+// A guest without a cart token gets a new guest cart; its token is returned as cartToken
 router.post("/items", async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = addToCartSchema.parse(req.body);
-    const item = await cartService.addItem(req.user!.id, validatedData);
-    res.status(201).json(item);
+
+    let owner = await resolveCartOwner(req);
+    let cartToken: string | undefined;
+    if (!owner) {
+      const guestCart = await cartService.createGuestCart();
+      owner = { guestCartId: guestCart.guestCartId };
+      cartToken = guestCart.cartToken;
+    }
+
+    const item = await cartService.addItem(owner, validatedData);
+    res.status(201).json(cartToken ? { ...item, cartToken } : item);
   } catch (error: any) {
     if (error.name === "ZodError") {
       return res.status(400).json({ error: "Validation error", details: error.errors });
@@ -36,7 +66,11 @@ router.post("/items", async (req: AuthRequest, res: Response) => {
 router.put("/items/:id", async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = updateCartItemSchema.parse(req.body);
-    const item = await cartService.updateItem(req.user!.id, req.params.id, validatedData);
+    const owner = await resolveCartOwner(req);
+    if (!owner) {
+      return res.status(404).json({ error: "Cart item not found" });
+    }
+    const item = await cartService.updateItem(owner, req.params.id, validatedData);
     res.json(item);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -49,7 +83,11 @@ router.put("/items/:id", async (req: AuthRequest, res: Response) => {
 // Remove item from cart
 router.delete("/items/:id", async (req: AuthRequest, res: Response) => {
   try {
-    await cartService.removeItem(req.user!.id, req.params.id);
+    const owner = await resolveCartOwner(req);
+    if (!owner) {
+      return res.status(404).json({ error: "Cart item not found" });
+    }
+    await cartService.removeItem(owner, req.params.id);
     res.json({ message: "Item removed from cart" });
   } catch (error: any) {
     res.status(400).json({ error: error.message });
@@ -59,7 +97,10 @@ router.delete("/items/:id", async (req: AuthRequest, res: Response) => {
 // Clear cart
 router.delete("/", async (req: AuthRequest, res: Response) => {
   try {
-    await cartService.clearCart(req.user!.id);
+    const owner = await resolveCartOwner(req);
+    if (owner) {
+      await cartService.clearCart(owner);
+    }
     res.json({ message: "Cart cleared" });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -67,4 +108,3 @@ router.delete("/", async (req: AuthRequest, res: Response) => {
 });
 
 export default router;
-
@@ -1,6 +1,6 @@
 import { Router, Request, Response } from "express";
 import { categoryService, createCategorySchema, updateCategorySchema } from "../services/category.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
 import { productListLimiter } from "../middleware/rateLimit";
 import { cacheMiddleware, clearCache } from "../middleware/cache";
 
@@ -16,6 +16,22 @@ router.get("/", productListLimiter, cacheMiddleware(600), async (req: Request, r
   }
 });
 
+// Get archived categories (admin only; declared before /:id)
+router.get(
+  "/archived",
+  authenticate,
+  authorizePermission("categories:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const categories = await categoryService.getArchived();
+      res.json(categories);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
 // Get category by ID (public) - cached for 10 minutes
 router.get("/:id", productListLimiter, cacheMiddleware(600), async (req: Request, res: Response) => {
   try {
@@ -30,7 +46,7 @@ router.get("/:id", productListLimiter, cacheMiddleware(600), async (req: Request
 });
 
 // Create category (admin only)
-router.post("/", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+router.post("/", authenticate, authorizePermission("categories:write"), async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = createCategorySchema.parse(req.body);
     const category = await categoryService.create(validatedData);
@@ -46,7 +62,7 @@ router.post("/", authenticate, authorize("admin"), async (req: AuthRequest, res:
 });
 
 // Update category (admin only)
-router.put("/:id", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+router.put("/:id", authenticate, authorizePermission("categories:write"), async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = updateCategorySchema.parse(req.body);
     const category = await categoryService.update(req.params.id, validatedData);
@@ -62,18 +78,51 @@ router.put("/:id", authenticate, authorize("admin"), async (req: AuthRequest, re
   }
 });
 
-// Delete category (admin only)
-router.delete("/:id", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+// Archive category (admin only)
+router.delete("/:id", authenticate, authorizePermission("categories:write"), async (req: AuthRequest, res: Response) => {
   try {
-    await categoryService.delete(req.params.id);
+    const result = await categoryService.delete(req.params.id);
     // Clear cache
     clearCache(`/api/categories/${req.params.id}`);
     clearCache("/api/categories");
-    res.json({ message: "Category deleted successfully" });
+    res.json(result);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
 });
 
+// Restore an archived category (admin only)
+router.post(
+  "/:id/restore",
+  authenticate,
+  authorizePermission("categories:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const category = await categoryService.restore(req.params.id);
+      clearCache("/api/categories");
+      res.json(category);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
+// Permanently delete an archived category (admin only; refused while products use it)
+router.delete(
+  "/:id/purge",
+  authenticate,
+  authorizePermission("categories:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await categoryService.purge(req.params.id);
+      res.json(result);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
 export default router;
 
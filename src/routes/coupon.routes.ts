@@ -1,13 +1,19 @@
-import { Router, Request, Response } from "express";
-import { couponService, createCouponSchema, updateCouponSchema } from "../services/coupon.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { Router, Response } from "express";
+import {
+  couponService,
+  createCouponSchema,
+  updateCouponSchema,
+  validateCouponSchema,
+  CouponCartLine,
+} from "../services/coupon.service";
+import { authenticate, authorizePermission, optionalAuthenticate, AuthRequest } from "../middleware/auth";
 import { adminLimiter, apiLimiter } from "../middleware/rateLimit";
 import { cacheMiddleware, clearCache } from "../middleware/cache";
 
 const router = Router();
 
 // Get all coupons (admin only) - cached for 5 minutes
-router.get("/", authenticate, authorize("admin"), adminLimiter, cacheMiddleware(300), async (req: AuthRequest, res: Response) => {
+router.get("/", authenticate, authorizePermission("coupons:read"), adminLimiter, cacheMiddleware(300), async (req: AuthRequest, res: Response) => {
   try {
     const coupons = await couponService.getAll();
     res.json(coupons);
@@ -17,7 +23,7 @@ router.get("/", authenticate, authorize("admin"), adminLimiter, cacheMiddleware(
 });
 
 // Get coupon by ID (admin only) - cached for 5 minutes
-router.get("/:id", authenticate, authorize("admin"), adminLimiter, cacheMiddleware(300), async (req: AuthRequest, res: Response) => {
+router.get("/:id", authenticate, authorizePermission("coupons:read"), adminLimiter, cacheMiddleware(300), async (req: AuthRequest, res: Response) => {
   try {
     const coupon = await couponService.getById(req.params.id);
     if (!coupon) {
@@ -30,21 +36,35 @@ router.get("/:id", authenticate, authorize("admin"), adminLimiter, cacheMiddlewa
 });
 
 // Validate coupon (public) - rate limited
-router.post("/validate", apiLimiter, async (req: Request, res: Response) => {
+// Lines come from `items`, the signed-in user's cart, or a single `orderAmount` line
+router.post("/validate", apiLimiter, optionalAuthenticate, async (req: AuthRequest, res: Response) => {
   try {
-    const { code, orderAmount } = req.body;
-    if (!code || !orderAmount) {
-      return res.status(400).json({ error: "Code and orderAmount are required" });
+    const { code, items, orderAmount } = validateCouponSchema.parse(req.body);
+    const userId = req.user?.id;
+
+    let lines: CouponCartLine[];
+    if (items) {
+      lines = await couponService.buildLines(items);
+    } else if (orderAmount !== undefined) {
+      lines = [{ productId: "", category: null, quantity: 1, price: orderAmount }];
+    } else if (userId) {
+      lines = await couponService.getCartLines(userId);
+    } else {
+      return res.status(400).json({ error: "Items or orderAmount are required" });
     }
-    const validation = await couponService.validateCoupon(code, parseFloat(orderAmount));
+
+    const validation = await couponService.validateCoupon(code, { userId, lines });
     res.json(validation);
   } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
 // Create coupon (admin only)
-router.post("/", authenticate, authorize("admin"), adminLimiter, async (req: AuthRequest, res: Response) => {
+router.post("/", authenticate, authorizePermission("coupons:write"), adminLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = createCouponSchema.parse(req.body);
     const coupon = await couponService.create(validatedData);
@@ -60,7 +80,7 @@ router.post("/", authenticate, authorize("admin"), adminLimiter, async (req: Aut
 });
 
 // Update coupon (admin only)
-router.put("/:id", authenticate, authorize("admin"), adminLimiter, async (req: AuthRequest, res: Response) => {
+router.put("/:id", authenticate, authorizePermission("coupons:write"), adminLimiter, async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = updateCouponSchema.parse(req.body);
     const coupon = await couponService.update(req.params.id, validatedData);
@@ -77,7 +97,7 @@ router.put("/:id", authenticate, authorize("admin"), adminLimiter, async (req: A
 });
 
 // Delete coupon (admin only)
-router.delete("/:id", authenticate, authorize("admin"), adminLimiter, async (req: AuthRequest, res: Response) => {
+router.delete("/:id", authenticate, authorizePermission("coupons:write"), adminLimiter, async (req: AuthRequest, res: Response) => {
   try {
     await couponService.delete(req.params.id);
     // Clear cache
@@ -0,0 +1,41 @@
+import { Router, Response } from "express";
+import { ZodError } from "zod";
+import { inventoryService, lowStockReportSchema } from "../services/inventory.service";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
+import { adminLimiter } from "../middleware/rateLimit";
+
+const router = Router();
+
+// All routes require staff who manage products and stock
+router.use(authenticate);
+router.use(authorizePermission("products:write"));
+router.use(adminLimiter);
+
+// Products at or below their reorder threshold, with sales velocity and days of cover
+router.get("/low-stock", async (req: AuthRequest, res: Response) => {
+  try {
+    const filters = lowStockReportSchema.parse(req.query);
+    const report = await inventoryService.getLowStockReport(filters);
+    res.json(report);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+// Recent low-stock alerts raised by orders
+router.get("/alerts", async (req: AuthRequest, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const alerts = await inventoryService.getLowStockAlerts(limit);
+    res.json(alerts);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,24 +1,38 @@
 import { Router, Response } from "express";
-import { orderService, createOrderSchema } from "../services/order.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { ZodError } from "zod";
+import { orderService, createOrderSchema, ORDER_TOKEN_HEADER } from "../services/order.service";
+import { cartService, CART_TOKEN_HEADER } from "../services/cart.service";
+import { shipmentService, createShipmentSchema } from "../services/shipment.service";
+import { authenticate, optionalAuthenticate, authorizePermission, hasPermission, AuthRequest } from "../middleware/auth";
 import { apiLimiter, adminLimiter } from "../middleware/rateLimit";
 import { cacheMiddleware, clearCache } from "../middleware/cache";
 
 const router = Router();
 
-// All order routes require authentication
-router.use(authenticate);
-
-// Create order from cart
-router.post("/", async (req: AuthRequest, res: Response) => {
+// Create order from cart - signed-in users, or guests with an X-Cart-Token and email
+router.post("/", optionalAuthenticate, async (req: AuthRequest, res: Response) => {
   try {
+    let guestCartId: string | undefined;
+    if (!req.user) {
+      const cartToken = req.header(CART_TOKEN_HEADER);
+      guestCartId = cartToken ? (await cartService.resolveGuestCart(cartToken)) || undefined : undefined;
+      if (!guestCartId) {
+        return res.status(400).json({ error: "Cart is empty" });
+      }
+    }
+
     const validatedData = createOrderSchema.parse({
       ...req.body,
-      userId: req.user!.id,
+      userId: req.user?.id,
+      guestCartId,
     });
     const order = await orderService.createOrderFromCart(validatedData);
     // Clear order list cache for this user
     clearCache("/api/orders");
+    if (!req.user) {
+      // Guests keep this token to view and pay for the order
+      return res.status(201).json({ ...order, orderToken: orderService.createGuestOrderToken(order.id) });
+    }
     res.status(201).json(order);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -28,11 +42,38 @@ router.post("/", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Get user orders (or all orders if admin) - cached for 1 minute
+// Get a guest order with the X-Order-Token returned at checkout
+router.get("/guest/:id", async (req: AuthRequest, res: Response) => {
+  try {
+    const orderToken = req.header(ORDER_TOKEN_HEADER);
+    const orderId = orderToken ? orderService.verifyGuestOrderToken(orderToken) : null;
+    if (!orderId || orderId !== req.params.id) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const order = await orderService.getOrderById(orderId);
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
+
+    const items = await orderService.getOrderItems(order.id);
+    const shipments = await shipmentService.getByOrderId(order.id);
+    const history = await orderService.getOrderHistory(order.id);
+    res.json({ ...order, items, shipments, history });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// All other order routes require authentication
+router.use(authenticate);
+
+// Get user orders (or all orders if admin; ?refundRequired=true for orders flagged for a refund) - cached for 1 minute
 router.get("/", cacheMiddleware(60), async (req: AuthRequest, res: Response) => {
   try {
-    if (req.user!.role === "admin") {
-      const orders = await orderService.getAllOrders();
+    if (hasPermission(req.user, "orders:read_all")) {
+      const orders = await orderService.getAllOrders({ refundRequired: req.query.refundRequired === "true" });
       res.json(orders);
     } else {
       const orders = await orderService.getUserOrders(req.user!.id);
@@ -44,13 +85,16 @@ router.get("/", cacheMiddleware(60), async (req: AuthRequest, res: Response) =>
 });
 
 // Update order status (admin only)
-router.put("/:id/status", authorize("admin"), adminLimiter, async (req: AuthRequest, res: Response) => {
+router.put("/:id/status", authorizePermission("orders:update_status"), adminLimiter, async (req: AuthRequest, res: Response) => {
   try {
-    const { status } = req.body;
+    const { status, note } = req.body;
     if (!status) {
       return res.status(400).json({ error: "Status is required" });
     }
-    const order = await orderService.updateOrderStatus(req.params.id, status);
+    const order = await orderService.updateOrderStatus(req.params.id, status, {
+      actorId: req.user!.id,
+      note,
+    });
     // Clear order cache
     clearCache(`/api/orders/${req.params.id}`);
     clearCache("/api/orders");
@@ -60,18 +104,73 @@ router.put("/:id/status", authorize("admin"), adminLimiter, async (req: AuthRequ
   }
 });
 
+// Cancel order (owner, or admin for any order) - restocks, releases coupon and refunds if paid
+router.post("/:id/cancel", async (req: AuthRequest, res: Response) => {
+  try {
+    const userId = hasPermission(req.user, "orders:update_status") ? undefined : req.user!.id;
+    const result = await orderService.cancelOrder(req.params.id, userId, {
+      actorId: req.user!.id,
+      reason: typeof req.body?.reason === "string" ? req.body.reason : undefined,
+    });
+    // Clear order cache
+    clearCache(`/api/orders/${req.params.id}`);
+    clearCache("/api/orders");
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "Order not found") {
+      return res.status(404).json({ error: message });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Create shipment for an order (admin only)
+router.post("/:id/shipments", authorizePermission("orders:fulfil"), adminLimiter, async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = createShipmentSchema.parse(req.body);
+    const shipment = await shipmentService.create(req.params.id, validatedData, req.user!.id);
+    // Clear order cache
+    clearCache(`/api/orders/${req.params.id}`);
+    clearCache("/api/orders");
+    res.status(201).json(shipment);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Mark shipment as delivered (admin only)
+router.put("/:id/shipments/:shipmentId/delivered", authorizePermission("orders:fulfil"), adminLimiter, async (req: AuthRequest, res: Response) => {
+  try {
+    const shipment = await shipmentService.markDelivered(req.params.id, req.params.shipmentId, req.user!.id);
+    // Clear order cache
+    clearCache(`/api/orders/${req.params.id}`);
+    clearCache("/api/orders");
+    res.json(shipment);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
 // Get order by ID - cached for 2 minutes
 router.get("/:id", cacheMiddleware(120), async (req: AuthRequest, res: Response) => {
   try {
-    // Admin can view any order, users can only view their own
-    const userId = req.user!.role === "admin" ? undefined : req.user!.id;
+    // Staff with orders:read_all can view any order, users can only view their own
+    const userId = hasPermission(req.user, "orders:read_all") ? undefined : req.user!.id;
     const order = await orderService.getOrderById(req.params.id, userId);
     if (!order) {
       return res.status(404).json({ error: "Order not found" });
     }
 
     const items = await orderService.getOrderItems(order.id);
-    res.json({ ...order, items });
+    const shipments = await shipmentService.getByOrderId(order.id);
+    const history = await orderService.getOrderHistory(order.id);
+    res.json({ ...order, items, shipments, history });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -1,13 +1,13 @@
 import { Router, Response } from "express";
 import { paymentService } from "../services/payment.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
 import { query } from "../config/database";
 
 const router = Router();
 
 // All routes require admin authentication
 router.use(authenticate);
-router.use(authorize("admin"));
+router.use(authorizePermission("payments:read_all"));
 
 // Get all payments
 router.get("/", async (req: AuthRequest, res: Response) => {
@@ -34,6 +34,17 @@ router.get("/:id", async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get refunds issued against a payment
+router.get("/:id/refunds", async (req: AuthRequest, res: Response) => {
+  try {
+    const refunds = await paymentService.getRefundsByPaymentId(req.params.id);
+    res.json(refunds);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
 // Get payments by order ID
 router.get("/order/:orderId", async (req: AuthRequest, res: Response) => {
   try {
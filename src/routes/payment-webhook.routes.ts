@@ -0,0 +1,55 @@
+/**
+ * Payment Webhook Routes
+ * 
+ * Receives event notifications from payment providers so payment and order state is updated
+ * even when the client never calls /api/payments/confirm (e.g. the browser closed
+ * after paying). Mounted before the JSON body parser because signature
+ * verification needs the raw request body.
+ */
+
+import { Router, Request, Response } from "express";
+import { paymentService } from "../services/payment.service";
+
+const router = Router();
+
+/**
+ * POST /api/payments/webhook/:provider?
+ * Handle a payment provider webhook event
+ * 
+ * Public endpoint - authenticated by the provider's signature header instead of a JWT
+ * (Stripe-Signature for stripe, X-Fake-Signature for fake). Without :provider the
+ * configured PAYMENT_PROVIDER is assumed.
+ * Returns 400 for a bad signature, 500 when processing fails (so the provider retries),
+ * and 200 for processed, duplicate and ignored event types.
+ */
+router.post("/:provider?", async (req: Request, res: Response) => {
+  let event;
+  try {
+    const header = paymentService.getWebhookSignatureHeader(req.params.provider);
+    if (!header) {
+      return res.status(400).json({ error: "Provider does not support webhooks" });
+    }
+
+    const signature = req.headers[header];
+    if (!signature || typeof signature !== "string") {
+      return res.status(400).json({ error: `Missing ${header} header` });
+    }
+
+    // req.body is a Buffer here (express.raw)
+    event = paymentService.constructWebhookEvent(req.params.provider, req.body, signature);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    return res.status(400).json({ error: `Webhook signature verification failed: ${message}` });
+  }
+
+  try {
+    const result = await paymentService.handleWebhookEvent(event);
+    res.json({ received: true, ...result });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Webhook processing error", { eventId: event.id, type: event.type, error });
+    res.status(500).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,19 +1,39 @@
 import { Router, Response } from "express";
-import { paymentService, createPaymentIntentSchema } from "../services/payment.service";
-import { authenticate, AuthRequest } from "../middleware/auth";
+import { paymentService, createPaymentIntentSchema, refundSchema } from "../services/payment.service";
+import { authenticate, optionalAuthenticate, authorizePermission, hasPermission, AuthRequest } from "../middleware/auth";
+import { orderService, ORDER_TOKEN_HEADER } from "../services/order.service";
 import { paymentLimiter } from "../middleware/rateLimit";
 
 const router = Router();
 
-// All payment routes require authentication and rate limiting
-router.use(authenticate);
 router.use(paymentLimiter);
 
+/**
+ * Resolve which orders the caller may pay for
+ * Staff with payments:manage may pay for any order, users for their own, and
+ * guests only for the order named in their X-Order-Token.
+ */
+const paymentScope = (req: AuthRequest): { userId?: string; orderId?: string } | null => {
+  if (req.user) {
+    return hasPermission(req.user, "payments:manage") ? {} : { userId: req.user.id };
+  }
+  const orderToken = req.header(ORDER_TOKEN_HEADER);
+  const orderId = orderToken ? orderService.verifyGuestOrderToken(orderToken) : null;
+  return orderId ? { orderId } : null;
+};
+
 // Create payment intent
-router.post("/intent", async (req: AuthRequest, res: Response) => {
+router.post("/intent", optionalAuthenticate, async (req: AuthRequest, res: Response) => {
   try {
     const validatedData = createPaymentIntentSchema.parse(req.body);
-    const result = await paymentService.createPaymentIntent(validatedData);
+    const scope = paymentScope(req);
+    if (!scope) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (scope.orderId && scope.orderId !== validatedData.orderId) {
+      return res.status(400).json({ error: "Order not found" });
+    }
+    const result = await paymentService.createPaymentIntent(validatedData, scope.userId);
     res.json(result);
   } catch (error: any) {
     if (error.name === "ZodError") {
@@ -24,24 +44,37 @@ router.post("/intent", async (req: AuthRequest, res: Response) => {
 });
 
 // Confirm payment
-router.post("/confirm", async (req: AuthRequest, res: Response) => {
+router.post("/confirm", optionalAuthenticate, async (req: AuthRequest, res: Response) => {
   try {
     const { paymentIntentId } = req.body;
     if (!paymentIntentId) {
       return res.status(400).json({ error: "Payment intent ID is required" });
     }
 
-    const payment = await paymentService.confirmPayment(paymentIntentId);
+    const scope = paymentScope(req);
+    if (!scope) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    const payment = await paymentService.confirmPayment(paymentIntentId, scope.userId, scope.orderId);
     res.json(payment);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
 });
 
+// All other payment routes require authentication
+router.use(authenticate);
+
+/**
+ * Owner the caller's payment reads are limited to
+ * Staff with payments:read_all may read any payment, users those of their own orders.
+ */
+const readScope = (req: AuthRequest) => (hasPermission(req.user, "payments:read_all") ? undefined : req.user!.id);
+
 // Get payment by ID
 router.get("/:id", async (req: AuthRequest, res: Response) => {
   try {
-    const payment = await paymentService.getPaymentById(req.params.id);
+    const payment = await paymentService.getPaymentById(req.params.id, readScope(req));
     if (!payment) {
       return res.status(404).json({ error: "Payment not found" });
     }
@@ -54,6 +87,10 @@ router.get("/:id", async (req: AuthRequest, res: Response) => {
 // Get payments by order ID
 router.get("/order/:orderId", async (req: AuthRequest, res: Response) => {
   try {
+    const order = await orderService.getOrderById(req.params.orderId, readScope(req));
+    if (!order) {
+      return res.status(404).json({ error: "Order not found" });
+    }
     const payments = await paymentService.getPaymentsByOrderId(req.params.orderId);
     res.json(payments);
   } catch (error: any) {
@@ -61,15 +98,33 @@ router.get("/order/:orderId", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Refund payment
-router.post("/:id/refund", async (req: AuthRequest, res: Response) => {
+// Refund payment in full or in part (requires payments:refund)
+router.post("/:id/refund", authorizePermission("payments:refund"), async (req: AuthRequest, res: Response) => {
   try {
-    const result = await paymentService.refundPayment(req.params.id);
+    const validatedData = refundSchema.parse(req.body || {});
+    const result = await paymentService.refundPayment(req.params.id, validatedData, req.user!.id);
     res.json(result);
   } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
     res.status(400).json({ error: error.message });
   }
 });
 
+// Mark a cash on delivery payment as collected (requires payments:manage)
+router.post("/:id/collect", authorizePermission("payments:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const payment = await paymentService.markCollected(req.params.id, req.user!.id);
+    res.json(payment);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message === "Payment not found") {
+      return res.status(404).json({ error: message });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
 export default router;
 
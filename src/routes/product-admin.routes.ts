@@ -0,0 +1,103 @@
+import express, { Router, Response } from "express";
+import { ZodError } from "zod";
+import {
+  productImportService,
+  importQuerySchema,
+  exportQuerySchema,
+  ImportFormat,
+} from "../services/product-import.service";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
+import { adminLimiter } from "../middleware/rateLimit";
+
+const router = Router();
+
+// All routes require staff who manage products
+router.use(authenticate);
+router.use(authorizePermission("products:write"));
+router.use(adminLimiter);
+
+// Import files are kept as text (CSV or JSON) and parsed per row by the import service.
+// Mounted here rather than app-wide so unauthenticated clients cannot make the server buffer large bodies.
+const importBodyParser = express.text({
+  type: ["text/csv", "application/json"],
+  limit: process.env.PRODUCT_IMPORT_MAX_SIZE || "10mb",
+});
+
+/**
+ * Import products from a CSV or JSON file sent as the request body
+ * (Content-Type text/csv or application/json; the body is kept as text).
+ * dryRun=true only validates; otherwise the valid rows are applied by a background job.
+ */
+router.post("/import", importBodyParser, async (req: AuthRequest, res: Response) => {
+  try {
+    const { format: requestedFormat, dryRun } = importQuerySchema.parse(req.query);
+    if (typeof req.body !== "string" || req.body.trim() === "") {
+      return res
+        .status(400)
+        .json({ error: "Send the file as the request body with Content-Type text/csv or application/json" });
+    }
+
+    const format: ImportFormat = requestedFormat || (req.is("text/csv") ? "csv" : "json");
+    const result = await productImportService.startImport(req.body, format, dryRun, req.user!.id);
+    res.status(dryRun ? 200 : 202).json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Recent import jobs
+router.get("/import", async (req: AuthRequest, res: Response) => {
+  try {
+    const jobs = await productImportService.getJobs();
+    res.json(jobs);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Import job progress and row errors
+router.get("/import/:jobId", async (req: AuthRequest, res: Response) => {
+  try {
+    const job = await productImportService.getJob(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Import job not found" });
+    }
+    res.json(job);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Stream the full catalog as CSV or JSON
+router.get("/export", async (req: AuthRequest, res: Response) => {
+  const parsed = exportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Validation error", details: parsed.error.errors });
+  }
+  const format = parsed.data.format;
+
+  const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+  try {
+    await productImportService.exportCatalog(format, res);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Product export failed:", error);
+    // Headers are gone once streaming started; cut the response short so the file is visibly incomplete
+    if (res.headersSent) {
+      res.destroy(error instanceof Error ? error : undefined);
+    } else {
+      res.status(500).json({ error: message });
+    }
+  }
+});
+
+export default router;
@@ -7,8 +7,28 @@
  */
 
 import { Router, Request, Response } from "express";
-import { productService, createProductSchema, updateProductSchema } from "../services/product.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { ZodError } from "zod";
+import {
+  productService,
+  createProductSchema,
+  updateProductSchema,
+  listProductsSchema,
+  searchProductsSchema,
+} from "../services/product.service";
+import {
+  variantService,
+  productOptionsSchema,
+  createVariantSchema,
+  updateVariantSchema,
+} from "../services/variant.service";
+import { inventoryService, stockAdjustmentSchema, listMovementsSchema } from "../services/inventory.service";
+import {
+  authenticate,
+  optionalAuthenticate,
+  authorizePermission,
+  hasPermission,
+  AuthRequest,
+} from "../middleware/auth";
 import { productListLimiter } from "../middleware/rateLimit";
 import { cacheMiddleware, clearCache } from "../middleware/cache";
 
@@ -16,43 +36,89 @@ const router = Router();
 
 /**
  * GET /api/products
- * Get all products with optional filtering
+ * Get products with optional filtering, sorting and pagination
  * 
  * Public endpoint - no authentication required.
  * Supports query parameters for filtering:
- * - category: Filter by product category
+ * - category, tag: Filter by categories or tags (comma-separated, matches any)
  * - isActive: Filter by active status (true/false)
- * - search: Search in product name and description
- * - limit: Maximum number of results
- * - offset: Pagination offset
+ * - search: Full-text search in product name, tags, category and description
+ * - minPrice, maxPrice: Price range
+ * - inStock, onSale: Only in-stock / discounted products (true/false)
+ * - sort: newest (default), price_asc, price_desc, name_asc, name_desc, popularity
+ * - limit (default 20, max 100) and page, or cursor (nextCursor of the previous page)
  * 
  * Cached for 5 minutes to reduce database load for frequently accessed data.
  */
 router.get("/", productListLimiter, cacheMiddleware(300), async (req: Request, res: Response) => {
   try {
-    // Extract and parse query parameters for filtering
-    const filters = {
-      category: req.query.category as string | undefined,
-      isActive: req.query.isActive !== undefined ? req.query.isActive === "true" : undefined,
-      search: req.query.search as string | undefined,
-      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
-      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
-    };
+    // Validate and parse query parameters for filtering
+    const filters = listProductsSchema.parse(req.query);
 
     // Fetch products with applied filters
     const products = await productService.getAll(filters);
     res.json(products);
   } catch (error: any) {
+    if (error.name === "ZodError") {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    if (error.message === "Invalid cursor") {
+      return res.status(400).json({ error: error.message });
+    }
     res.status(500).json({ error: error.message });
   }
 });
 
+/**
+ * GET /api/products/search
+ * Full-text product search with relevance ranking and facets
+ * 
+ * Public endpoint - no authentication required. Only active products are returned.
+ * Query parameters:
+ * - q: Search terms (required; supports "quoted phrases", OR and -exclusions)
+ * - category, tag: Exact filters
+ * - minPrice, maxPrice: Price range
+ * - limit (default 20, max 100), offset: Pagination
+ * 
+ * Cached for 5 minutes like the product list.
+ */
+router.get("/search", productListLimiter, cacheMiddleware(300), async (req: Request, res: Response) => {
+  try {
+    const params = searchProductsSchema.parse(req.query);
+    const results = await productService.search(params);
+    res.json(results);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * GET /api/products/archived
+ * Get archived (soft deleted) products
+ * 
+ * Requires products:write. Declared before /:id so "archived" is not taken for a product ID.
+ */
+router.get("/archived", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const products = await productService.getArchived();
+    res.json(products);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
 /**
  * GET /api/products/:id
  * Get a single product by ID
  * 
  * Public endpoint - no authentication required.
- * Returns full product details including description, images, pricing, etc.
+ * Returns full product details including description, images, pricing, etc.,
+ * plus its option types and active variants.
  * 
  * Cached for 10 minutes since individual product data changes less frequently.
  */
@@ -62,7 +128,9 @@ router.get("/:id", productListLimiter, cacheMiddleware(600), async (req: Request
     if (!product) {
       return res.status(404).json({ error: "Product not found" });
     }
-    res.json(product);
+    const options = await variantService.getOptions(product.id);
+    const variants = await variantService.getByProductId(product.id);
+    res.json({ ...product, options, variants });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
   }
@@ -76,12 +144,12 @@ router.get("/:id", productListLimiter, cacheMiddleware(600), async (req: Request
  * Validates product data using Zod schema before creation.
  * Clears product list cache after creation to ensure fresh data.
  */
-router.post("/", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+router.post("/", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
   try {
     // Validate request body against schema
     const validatedData = createProductSchema.parse(req.body);
     // Create product in database
-    const product = await productService.create(validatedData);
+    const product = await productService.create(validatedData, req.user!.id);
     // Clear cache to ensure new product appears in listings
     clearCache("/api/products");
     res.status(201).json(product);
@@ -102,12 +170,12 @@ router.post("/", authenticate, authorize("admin"), async (req: AuthRequest, res:
  * Supports partial updates (only provided fields are updated).
  * Clears both individual product cache and product list cache.
  */
-router.put("/:id", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+router.put("/:id", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
   try {
     // Validate request body (all fields optional for partial updates)
     const validatedData = updateProductSchema.parse(req.body);
     // Update product in database
-    const product = await productService.update(req.params.id, validatedData);
+    const product = await productService.update(req.params.id, validatedData, req.user!.id);
     // Clear caches to ensure updated data is served
     clearCache(`/api/products/${req.params.id}`);
     clearCache("/api/products");
@@ -123,24 +191,230 @@ router.put("/:id", authenticate, authorize("admin"), async (req: AuthRequest, re
 
 /**
  * DELETE /api/products/:id
- * Delete a product
+ * Archive (soft delete) a product
  * 
  * Admin-only endpoint - requires authentication and admin role.
- * Permanently removes product from database.
- * Clears caches to remove deleted product from listings.
+ * Hides the product from listings and removes it from carts; it can be restored.
+ * Clears caches to remove archived product from listings.
  */
-router.delete("/:id", authenticate, authorize("admin"), async (req: AuthRequest, res: Response) => {
+router.delete("/:id", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
   try {
-    // Delete product from database
-    await productService.delete(req.params.id);
-    // Clear caches to ensure deleted product no longer appears
+    // Archive product
+    const result = await productService.delete(req.params.id);
+    // Clear caches to ensure archived product no longer appears
     clearCache(`/api/products/${req.params.id}`);
     clearCache("/api/products");
-    res.json({ message: "Product deleted successfully" });
+    res.json(result);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
 });
 
-export default router;
+/**
+ * POST /api/products/:id/restore
+ * Restore an archived product
+ * 
+ * Requires products:write.
+ */
+router.post(
+  "/:id/restore",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const product = await productService.restore(req.params.id);
+      clearCache("/api/products");
+      res.json(product);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/products/:id/purge
+ * Permanently delete an archived product
+ * 
+ * Requires products:write. Refused for products that appear in orders.
+ */
+router.delete(
+  "/:id/purge",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await productService.purge(req.params.id);
+      res.json(result);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message });
+    }
+  }
+);
 
+/**
+ * GET /api/products/:id/variants
+ * Get a product's option types and variants
+ * 
+ * Public endpoint - returns active variants only, or all variants for staff
+ * with products:write who pass includeInactive=true.
+ */
+router.get("/:id/variants", productListLimiter, optionalAuthenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const includeInactive = req.query.includeInactive === "true" && hasPermission(req.user, "products:write");
+    const options = await variantService.getOptions(req.params.id);
+    const variants = await variantService.getByProductId(req.params.id, includeInactive);
+    res.json({ options, variants });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/products/:id/options
+ * Replace a product's option types (e.g. size, colour)
+ * 
+ * Requires products:write. Refused if an existing variant would no longer match.
+ */
+router.put("/:id/options", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = productOptionsSchema.parse(req.body);
+    const options = await variantService.setOptions(req.params.id, validatedData);
+    clearCache("/api/products");
+    res.json(options);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * POST /api/products/:id/variants
+ * Add a variant with its own SKU, price, stock and images
+ * 
+ * Requires products:write. The product's stock becomes the total over its variants.
+ */
+router.post("/:id/variants", authenticate, authorizePermission("products:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = createVariantSchema.parse(req.body);
+    const variant = await variantService.create(req.params.id, validatedData, req.user!.id);
+    clearCache("/api/products");
+    res.status(201).json(variant);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+/**
+ * PUT /api/products/:id/variants/:variantId
+ * Update a variant (partial update)
+ * 
+ * Requires products:write.
+ */
+router.put(
+  "/:id/variants/:variantId",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validatedData = updateVariantSchema.parse(req.body);
+      const variant = await variantService.update(req.params.id, req.params.variantId, validatedData, req.user!.id);
+      clearCache("/api/products");
+      res.json(variant);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
+/**
+ * DELETE /api/products/:id/variants/:variantId
+ * Delete a variant
+ * 
+ * Requires products:write. Removes the variant from carts; past orders keep their snapshot.
+ */
+router.delete(
+  "/:id/variants/:variantId",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const result = await variantService.delete(req.params.id, req.params.variantId, req.user!.id);
+      clearCache("/api/products");
+      res.json(result);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
+/**
+ * POST /api/products/:id/stock-adjustments
+ * Record a manual stock change: restock, return, adjustment or damage
+ * 
+ * Requires products:write. Products with variants are adjusted per variant.
+ * The change is written to the inventory ledger with the reason and the acting user.
+ */
+router.post(
+  "/:id/stock-adjustments",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const validatedData = stockAdjustmentSchema.parse(req.body);
+      const movement = await inventoryService.adjust(req.params.id, validatedData, req.user!.id);
+      clearCache("/api/products");
+      res.status(201).json(movement);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (message === "Product not found" || message === "Variant not found") {
+        return res.status(404).json({ error: message });
+      }
+      res.status(400).json({ error: message });
+    }
+  }
+);
+
+/**
+ * GET /api/products/:id/stock-movements
+ * Get a product's inventory ledger, newest first
+ * 
+ * Requires products:write. Filters: variantId, type; paginated with limit and offset.
+ */
+router.get(
+  "/:id/stock-movements",
+  authenticate,
+  authorizePermission("products:write"),
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const filters = listMovementsSchema.parse(req.query);
+      const movements = await inventoryService.getMovements(req.params.id, filters);
+      res.json(movements);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      res.status(500).json({ error: message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,91 @@
+import { Router, Response } from "express";
+import { ZodError } from "zod";
+import { roleService, createRoleSchema, updateRoleSchema } from "../services/role.service";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
+import { adminLimiter } from "../middleware/rateLimit";
+
+const router = Router();
+
+// All role routes require roles:manage
+router.use(authenticate);
+router.use(authorizePermission("roles:manage"));
+router.use(adminLimiter);
+
+// Get all roles with their permissions
+router.get("/", async (req: AuthRequest, res: Response) => {
+  try {
+    const roles = await roleService.getAll();
+    res.json(roles);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Get the permission catalogue
+router.get("/permissions", async (req: AuthRequest, res: Response) => {
+  try {
+    const permissions = await roleService.getPermissions();
+    res.json(permissions);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Get role by ID
+router.get("/:id", async (req: AuthRequest, res: Response) => {
+  try {
+    const role = await roleService.getById(req.params.id);
+    if (!role) {
+      return res.status(404).json({ error: "Role not found" });
+    }
+    res.json(role);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Create role
+router.post("/", async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = createRoleSchema.parse(req.body);
+    const role = await roleService.create(validatedData);
+    res.status(201).json(role);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Update role description or replace its permissions
+router.put("/:id", async (req: AuthRequest, res: Response) => {
+  try {
+    const validatedData = updateRoleSchema.parse(req.body);
+    const role = await roleService.update(req.params.id, validatedData);
+    res.json(role);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Delete role (not built-in roles or roles still assigned to users)
+router.delete("/:id", async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await roleService.delete(req.params.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+export default router;
@@ -1,12 +1,12 @@
 import { Router, Response } from "express";
 import { settingsService } from "../services/settings.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { authenticate, authorizePermission, AuthRequest } from "../middleware/auth";
 
 const router = Router();
 
 // All settings routes require admin authentication
 router.use(authenticate);
-router.use(authorize("admin"));
+router.use(authorizePermission("settings:manage"));
 
 // Get all settings
 router.get("/", async (req: AuthRequest, res: Response) => {
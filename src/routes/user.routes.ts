@@ -1,15 +1,17 @@
 import { Router, Response } from "express";
+import { ZodError } from "zod";
 import { userService } from "../services/user.service";
-import { authenticate, authorize, AuthRequest } from "../middleware/auth";
+import { loginAttemptService } from "../services/login-attempt.service";
+import { roleService, assignRoleSchema } from "../services/role.service";
+import { authenticate, authorizePermission, hasPermission, AuthRequest } from "../middleware/auth";
 
 const router = Router();
 
-// All user routes require admin authentication
+// All user routes require authentication; each route checks its own permission
 router.use(authenticate);
-router.use(authorize("admin"));
 
 // Get all users
-router.get("/", async (req: AuthRequest, res: Response) => {
+router.get("/", authorizePermission("users:read"), async (req: AuthRequest, res: Response) => {
   try {
     const users = await userService.getAll();
     res.json(users);
@@ -18,8 +20,19 @@ router.get("/", async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Get archived users (declared before /:id)
+router.get("/archived", authorizePermission("users:read"), async (req: AuthRequest, res: Response) => {
+  try {
+    const users = await userService.getArchived();
+    res.json(users);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
 // Get user by ID
-router.get("/:id", async (req: AuthRequest, res: Response) => {
+router.get("/:id", authorizePermission("users:read"), async (req: AuthRequest, res: Response) => {
   try {
     const user = await userService.getById(req.params.id);
     if (!user) {
@@ -31,9 +44,49 @@ router.get("/:id", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Update user
-router.put("/:id", async (req: AuthRequest, res: Response) => {
+// Get recent login attempts for a user (audit)
+router.get("/:id/login-attempts", authorizePermission("users:read"), async (req: AuthRequest, res: Response) => {
+  try {
+    const attempts = await loginAttemptService.getByUserId(req.params.id);
+    res.json(attempts);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(500).json({ error: message });
+  }
+});
+
+// Unlock an account locked by too many failed logins
+router.post("/:id/unlock", authorizePermission("users:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await loginAttemptService.unlock(req.params.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+// Assign a role to a user
+router.put("/:id/role", authorizePermission("roles:manage"), async (req: AuthRequest, res: Response) => {
+  try {
+    const { role } = assignRoleSchema.parse(req.body);
+    const user = await roleService.assignRole(req.params.id, role);
+    res.json(user);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: "Validation error", details: error.errors });
+    }
+    res.status(400).json({ error: message });
+  }
+});
+
+// Update user (changing the role also requires roles:manage)
+router.put("/:id", authorizePermission("users:write"), async (req: AuthRequest, res: Response) => {
   try {
+    if (req.body?.role !== undefined && !hasPermission(req.user, "roles:manage")) {
+      return res.status(403).json({ error: "Insufficient permissions" });
+    }
     const user = await userService.update(req.params.id, req.body);
     res.json(user);
   } catch (error: any) {
@@ -41,15 +94,36 @@ router.put("/:id", async (req: AuthRequest, res: Response) => {
   }
 });
 
-// Delete user
-router.delete("/:id", async (req: AuthRequest, res: Response) => {
+// Archive user (deactivates the account and signs it out)
+router.delete("/:id", authorizePermission("users:write"), async (req: AuthRequest, res: Response) => {
   try {
-    await userService.delete(req.params.id);
-    res.json({ message: "User deleted successfully" });
+    const result = await userService.delete(req.params.id, req.user!.id);
+    res.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+// Restore an archived user
+router.post("/:id/restore", authorizePermission("users:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await userService.restore(req.params.id);
+    res.json(user);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    res.status(400).json({ error: message });
+  }
+});
+
+// Permanently delete an archived user (refused while orders or refunds reference them)
+router.delete("/:id/purge", authorizePermission("users:write"), async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await userService.purge(req.params.id);
+    res.json(result);
   } catch (error: any) {
     res.status(400).json({ error: error.message });
   }
 });
 
 export default router;
-
@@ -26,11 +26,13 @@ export const analyticsService = {
     const totalOrders = parseInt(ordersResult.rows[0]?.count || "0");
 
     // Total Products
-    const productsResult = await query("SELECT COUNT(*) as count FROM products");
+    const productsResult = await query("SELECT COUNT(*) as count FROM products WHERE deleted_at IS NULL");
     const totalProducts = parseInt(productsResult.rows[0]?.count || "0");
 
     // Total Users
-    const usersResult = await query("SELECT COUNT(*) as count FROM users WHERE role = 'customer'");
+    const usersResult = await query(
+      "SELECT COUNT(*) as count FROM users WHERE role = 'customer' AND deleted_at IS NULL"
+    );
     const totalUsers = parseInt(usersResult.rows[0]?.count || "0");
 
     // Pending Orders
@@ -39,9 +41,9 @@ export const analyticsService = {
     );
     const pendingOrders = parseInt(pendingResult.rows[0]?.count || "0");
 
-    // Low Stock Products
+    // Low Stock Products (at or below their own reorder threshold)
     const lowStockResult = await query(
-      "SELECT COUNT(*) as count FROM products WHERE stock_quantity < 10 AND is_active = true"
+      "SELECT COUNT(*) as count FROM products WHERE stock_quantity <= reorder_threshold AND is_active = true AND deleted_at IS NULL"
     );
     const lowStockProducts = parseInt(lowStockResult.rows[0]?.count || "0");
 
@@ -62,7 +64,7 @@ export const analyticsService = {
 
     // Recent Orders
     const recentOrdersResult = await query(
-      `SELECT o.*, u.email, u.first_name, u.last_name
+      `SELECT o.*, COALESCE(u.email, o.guest_email) AS email, u.first_name, u.last_name
        FROM orders o
        LEFT JOIN users u ON o.user_id = u.id
        ORDER BY o.created_at DESC
@@ -7,13 +7,59 @@
  */
 
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
 import jwt from "jsonwebtoken";
-import { query } from "../config/database";
+import { PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
 import { z } from "zod";
+import { mailService } from "./mail.service";
+import { loginAttemptService } from "./login-attempt.service";
+import { twoFactorService } from "./two-factor.service";
+import { cartService } from "./cart.service";
 
 // JWT configuration from environment variables
+// Access tokens are short-lived; sessions are kept alive with rotating refresh tokens
 const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
+const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "15m";
+const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || "30");
+// Interim token between the password step and the second factor, dead after this many wrong codes
+const TWO_FACTOR_CHALLENGE_EXPIRES_IN = "5m";
+const TWO_FACTOR_CHALLENGE_MAX_FAILURES = parseInt(process.env.TWO_FACTOR_CHALLENGE_MAX_FAILURES || "5");
+// Lifetimes of the single-use tokens sent by email
+const PASSWORD_RESET_EXPIRES_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || "60");
+const EMAIL_VERIFICATION_EXPIRES_HOURS = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || "48");
+
+/**
+ * Password policy, configurable through environment variables
+ * Applied to registration, password reset and password change.
+ */
+export const PASSWORD_POLICY = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "8"),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== "false",
+  requireNumber: process.env.PASSWORD_REQUIRE_NUMBER !== "false",
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+};
+
+/**
+ * Zod validation schema for a new password, built from PASSWORD_POLICY
+ */
+export const passwordSchema = z
+  .string()
+  .min(PASSWORD_POLICY.minLength, `Password must be at least ${PASSWORD_POLICY.minLength} characters`)
+  .max(128, "Password must be at most 128 characters")
+  .refine((value) => !PASSWORD_POLICY.requireUppercase || /[A-Z]/.test(value), {
+    message: "Password must contain an uppercase letter",
+  })
+  .refine((value) => !PASSWORD_POLICY.requireLowercase || /[a-z]/.test(value), {
+    message: "Password must contain a lowercase letter",
+  })
+  .refine((value) => !PASSWORD_POLICY.requireNumber || /[0-9]/.test(value), {
+    message: "Password must contain a number",
+  })
+  .refine((value) => !PASSWORD_POLICY.requireSymbol || /[^A-Za-z0-9]/.test(value), {
+    message: "Password must contain a symbol",
+  });
 
 /**
  * Zod validation schema for user registration
@@ -21,7 +67,7 @@ const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || "7d";
  */
 export const registerSchema = z.object({
   email: z.string().email("Invalid email address"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
+  password: passwordSchema,
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   phone: z.string().optional(),
@@ -36,6 +82,179 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+/**
+ * Zod validation schema for refresh and logout requests
+ */
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+/**
+ * Zod validation schema for requesting a password reset email
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+/**
+ * Zod validation schema for completing a password reset
+ * Applies the same password rules as registration
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  password: passwordSchema,
+});
+
+/**
+ * Zod validation schema for confirming an email address
+ */
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+});
+
+/**
+ * Zod validation schema for changing the password of a signed-in user
+ */
+export const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Current password is required"),
+    newPassword: passwordSchema,
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: "New password must be different from the current password",
+    path: ["newPassword"],
+  });
+
+/**
+ * Zod validation schema for requesting an email change
+ * The current password is required so a hijacked session cannot take over the account.
+ */
+export const changeEmailSchema = z.object({
+  newEmail: z.string().email("Invalid email address"),
+  currentPassword: z.string().min(1, "Current password is required"),
+});
+
+/**
+ * Zod validation schema for the interim token of a two-step login
+ */
+export const challengeTokenSchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+});
+
+/**
+ * Client details stored with a refresh token to help users recognise their sessions
+ * cartToken is not stored: a guest cart sent at login or registration is merged into the user's cart.
+ */
+export interface SessionInfo {
+  userAgent?: string;
+  ipAddress?: string;
+  cartToken?: string;
+}
+
+/**
+ * Refresh tokens are random strings; only their SHA-256 hash is stored
+ */
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Sign a short-lived access token
+ * tv (token version) lets logout-all invalidate every access token already issued.
+ */
+const signAccessToken = (user: { id: string; email: string; role: string; token_version?: number }) =>
+  jwt.sign(
+    { id: user.id, email: user.email, role: user.role, tv: user.token_version || 0 },
+    JWT_SECRET,
+    { expiresIn: JWT_EXPIRES_IN as jwt.SignOptions["expiresIn"] }
+  );
+
+/**
+ * Purposes of interim login tokens
+ * - two_factor: password accepted, waiting for a 2FA code
+ * - two_factor_setup: password accepted, 2FA is mandatory but not set up yet
+ */
+export type ChallengePurpose = "two_factor" | "two_factor_setup";
+
+/**
+ * Sign an interim token for the second login step
+ * The purpose claim stops authenticate() from accepting it as an access token.
+ */
+const signChallengeToken = (user: { id: string; token_version?: number }, purpose: ChallengePurpose) =>
+  jwt.sign({ id: user.id, purpose, tv: user.token_version || 0 }, JWT_SECRET, {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRES_IN as jwt.SignOptions["expiresIn"],
+  });
+
+/**
+ * Create and store a new refresh token
+ * 
+ * @param familyId - Token family (one per login session); a new family is started when omitted
+ * @returns The plain refresh token (shown to the client once) and the stored row id
+ */
+const createRefreshToken = async (userId: string, session: SessionInfo, familyId?: string, client?: PoolClient) => {
+  const token = crypto.randomBytes(48).toString("base64url");
+  const db = (text: string, params?: unknown[]) => (client ? client.query(text, params) : query(text, params));
+  const result = await db(
+    `INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at, user_agent, ip_address)
+     VALUES ($1, $2, COALESCE($3, uuid_generate_v4()), CURRENT_TIMESTAMP + $4::int * INTERVAL '1 day', $5, $6)
+     RETURNING id`,
+    [userId, hashToken(token), familyId || null, REFRESH_TOKEN_EXPIRES_DAYS, session.userAgent || null, session.ipAddress || null]
+  );
+  return { token, id: result.rows[0].id as string };
+};
+
+/**
+ * Purposes of the single-use tokens stored in user_tokens
+ */
+type UserTokenPurpose = "password_reset" | "email_verification" | "email_change";
+
+/**
+ * Create a single-use token for an emailed link
+ * 
+ * Any earlier unused token for the same purpose is invalidated, so only the
+ * most recent email works.
+ * 
+ * @param newEmail - Address being confirmed (email changes only)
+ * @returns The plain token to put in the email; only its hash is stored
+ */
+const createUserToken = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+  expiresInMinutes: number,
+  newEmail?: string
+) => {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await withTransaction(async (client) => {
+    await client.query(
+      "UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL",
+      [userId, purpose]
+    );
+    await client.query(
+      `INSERT INTO user_tokens (user_id, purpose, token_hash, new_email, expires_at)
+       VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP + $5::int * INTERVAL '1 minute')`,
+      [userId, purpose, hashToken(token), newEmail || null, expiresInMinutes]
+    );
+  });
+  return token;
+};
+
+/**
+ * Mark a single-use token as used
+ * 
+ * @returns ID of the user the token belongs to and, for email changes, the new address
+ * @throws Error if the token is unknown, already used or expired
+ */
+const consumeUserToken = async (client: PoolClient, token: string, purpose: UserTokenPurpose) => {
+  const result = await client.query(
+    `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1 AND purpose = $2 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING user_id, new_email`,
+    [hashToken(token), purpose]
+  );
+  if (result.rows.length === 0) {
+    throw new Error("Invalid or expired token");
+  }
+  return { userId: result.rows[0].user_id as string, newEmail: result.rows[0].new_email as string | null };
+};
+
 /**
  * User interface matching database schema
  * Represents a user record from the database
@@ -48,6 +267,7 @@ export interface User {
   phone: string | null;
   role: string;
   is_active: boolean;
+  email_verified_at: Date | null;
   created_at: Date;
 }
 
@@ -60,17 +280,18 @@ export const authService = {
    * Register a new user account
    * 
    * @param data - Validated registration data (email, password, optional name/phone)
-   * @returns User object and JWT token
+   * @returns User object, access token and refresh token
    * @throws Error if email already exists
    * 
    * Process:
    * 1. Check if user with email already exists
    * 2. Hash password using bcrypt (10 rounds)
    * 3. Insert new user into database
-   * 4. Generate JWT token with user ID, email, and role
-   * 5. Return user data (without password) and token
+   * 4. Email a verification link
+   * 5. Generate access token, start a refresh token family and merge any guest cart
+   * 6. Return user data (without password) and tokens
    */
-  async register(data: z.infer<typeof registerSchema>) {
+  async register(data: z.infer<typeof registerSchema>, session: SessionInfo = {}) {
     const { email, password, firstName, lastName, phone } = data;
 
     // Check if user already exists to prevent duplicate accounts
@@ -86,78 +307,115 @@ export const authService = {
     const result = await query(
       `INSERT INTO users (email, password_hash, first_name, last_name, phone)
        VALUES ($1, $2, $3, $4, $5)
-       RETURNING id, email, first_name, last_name, phone, role, is_active, created_at`,
+       RETURNING id, email, first_name, last_name, phone, role, is_active, token_version, email_verified_at, created_at`,
       [email, passwordHash, firstName || null, lastName || null, phone || null]
     );
 
     const user = result.rows[0];
 
-    // Generate JWT token containing user ID, email, and role for authentication
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN } as any
-    );
+    // A failed email must not fail the registration; the user can ask for a new link
+    try {
+      await this.sendVerificationEmail(user.id);
+    } catch (error) {
+      console.error("Failed to send verification email:", error);
+    }
 
-    return {
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.first_name,
-        lastName: user.last_name,
-        phone: user.phone,
-        role: user.role,
-      },
-      token,
-    };
+    return this.issueSession(user, session);
   },
 
   /**
    * Authenticate user and generate JWT token
    * 
    * @param data - Validated login data (email and password)
-   * @returns User object and JWT token
+   * @returns User object, access token and refresh token; or, when a second factor is
+   * needed, `twoFactorRequired` / `twoFactorSetupRequired` with an interim challengeToken
+   * @throws LoginThrottledError if the IP or account is in a delay or locked out
    * @throws Error if credentials are invalid or account is deactivated
    * 
    * Process:
-   * 1. Find user by email
-   * 2. Check if user exists
+   * 1. Refuse the attempt if the IP address has too many recent failures
+   * 2. Find user by email and refuse if the account is locked or in a delay
    * 3. Verify account is active
    * 4. Compare provided password with stored hash
-   * 5. Generate and return JWT token if authentication succeeds
+   * 5. Record the attempt (failures count towards delays and lockout)
+   * 6. If 2FA is enabled (or mandatory but not set up), return a challenge token instead
+   * 7. Generate and return access and refresh tokens if authentication succeeds
    */
-  async login(data: z.infer<typeof loginSchema>) {
+  async login(data: z.infer<typeof loginSchema>, session: SessionInfo = {}) {
     const { email, password } = data;
+    const attempt = { email, ipAddress: session.ipAddress, userAgent: session.userAgent };
+
+    await loginAttemptService.assertIpAllowed(attempt);
 
     // Find user by email address
     const result = await query(
-      "SELECT id, email, password_hash, first_name, last_name, phone, role, is_active FROM users WHERE email = $1",
+      `SELECT id, email, password_hash, first_name, last_name, phone, role, is_active, token_version,
+              email_verified_at, failed_login_count, last_failed_login_at, locked_until, two_factor_enabled_at
+       FROM users WHERE email = $1`,
       [email]
     );
 
     if (result.rows.length === 0) {
+      await loginAttemptService.recordFailure(attempt, "invalid_credentials");
       throw new Error("Invalid email or password");
     }
 
     const user = result.rows[0];
+    const userAttempt = { ...attempt, userId: user.id };
+
+    await loginAttemptService.assertAccountAllowed(userAttempt, user);
 
     // Check if user account is active (prevents login for deactivated accounts)
     if (!user.is_active) {
+      await loginAttemptService.recordFailure(userAttempt, "inactive");
       throw new Error("Account is deactivated");
     }
 
     // Verify password by comparing plain text with bcrypt hash
     const isValidPassword = await bcrypt.compare(password, user.password_hash);
     if (!isValidPassword) {
+      await loginAttemptService.recordFailure(userAttempt, "invalid_credentials");
       throw new Error("Invalid email or password");
     }
 
-    // Generate JWT token for authenticated user
-    const token = jwt.sign(
-      { id: user.id, email: user.email, role: user.role },
-      JWT_SECRET,
-      { expiresIn: JWT_EXPIRES_IN } as any
-    );
+    // Password is right, but the failure count is only reset once the second factor is checked
+    if (user.two_factor_enabled_at) {
+      return { twoFactorRequired: true, challengeToken: signChallengeToken(user, "two_factor") };
+    }
+    if (await twoFactorService.isRequiredForRole(user.role)) {
+      return { twoFactorSetupRequired: true, challengeToken: signChallengeToken(user, "two_factor_setup") };
+    }
+
+    await loginAttemptService.recordSuccess(userAttempt);
+    return this.issueSession(user, session);
+  },
+
+  /**
+   * Create the tokens for a fully authenticated user
+   * 
+   * Merges the guest cart named by session.cartToken into the user's cart; a
+   * failed merge never fails the login.
+   * 
+   * @param user - User row (id, email, names, phone, role, token_version, email_verified_at)
+   * @returns User object, access token, refresh token and, if a guest cart was sent, cartMerge
+   */
+  async issueSession(
+    user: Pick<User, "id" | "email" | "first_name" | "last_name" | "phone" | "role" | "email_verified_at"> & {
+      token_version?: number;
+    },
+    session: SessionInfo
+  ) {
+    const token = signAccessToken(user);
+    const refreshToken = await createRefreshToken(user.id, session);
+
+    let cartMerge;
+    if (session.cartToken) {
+      try {
+        cartMerge = await cartService.mergeGuestCart(session.cartToken, user.id);
+      } catch (error) {
+        console.error("Failed to merge guest cart:", error);
+      }
+    }
 
     return {
       user: {
@@ -167,11 +425,465 @@ export const authService = {
         lastName: user.last_name,
         phone: user.phone,
         role: user.role,
+        emailVerified: !!user.email_verified_at,
       },
       token,
+      refreshToken: refreshToken.token,
+      ...(cartMerge && { cartMerge }),
     };
   },
 
+  /**
+   * Check an interim login token
+   * 
+   * @param challengeToken - Token returned by login
+   * @param purpose - Login step the token must be for
+   * @returns The user the token was issued to
+   * @throws Error if the token is invalid, expired or for another step, the user can no longer
+   * log in, or TWO_FACTOR_CHALLENGE_MAX_FAILURES wrong codes were entered since it was issued
+   */
+  async verifyChallengeToken(challengeToken: string, purpose: ChallengePurpose) {
+    let decoded: { id: string; purpose?: string; tv?: number; iat?: number };
+    try {
+      decoded = jwt.verify(challengeToken, JWT_SECRET) as { id: string; purpose?: string; tv?: number; iat?: number };
+    } catch (error) {
+      throw new Error("Invalid or expired challenge token");
+    }
+    if (decoded.purpose !== purpose) {
+      throw new Error("Invalid or expired challenge token");
+    }
+
+    const result = await query(
+      `SELECT id, email, first_name, last_name, phone, role, is_active, token_version, email_verified_at,
+              failed_login_count, last_failed_login_at, locked_until, two_factor_enabled_at
+       FROM users WHERE id = $1`,
+      [decoded.id]
+    );
+    const user = result.rows[0];
+    if (!user || !user.is_active || (decoded.tv || 0) !== (user.token_version || 0)) {
+      throw new Error("Invalid or expired challenge token");
+    }
+
+    const failures = await loginAttemptService.countFailuresSince(
+      user.id,
+      "invalid_two_factor",
+      new Date((decoded.iat || 0) * 1000)
+    );
+    if (failures >= TWO_FACTOR_CHALLENGE_MAX_FAILURES) {
+      throw new Error("Too many invalid codes. Please log in again");
+    }
+    return user;
+  },
+
+  /**
+   * Second login step: check the 2FA code and finish logging in
+   * 
+   * @param challengeToken - Token returned by login
+   * @param factor - Authenticator code or recovery code
+   * @param session - Client details stored with the refresh token
+   * @returns User object, access token and refresh token
+   * @throws LoginThrottledError if the account is locked or in a delay
+   * @throws Error if the challenge token or code is invalid
+   * 
+   * Wrong codes count as failed logins, so guessing codes leads to the same
+   * delays and lockout as guessing passwords.
+   */
+  async verifyTwoFactorLogin(
+    challengeToken: string,
+    factor: { code?: string; recoveryCode?: string },
+    session: SessionInfo = {}
+  ) {
+    const user = await this.verifyChallengeToken(challengeToken, "two_factor");
+    const attempt = { email: user.email, userId: user.id, ipAddress: session.ipAddress, userAgent: session.userAgent };
+
+    await loginAttemptService.assertIpAllowed(attempt);
+    await loginAttemptService.assertAccountAllowed(attempt, user);
+
+    if (!(await twoFactorService.verify(user.id, factor))) {
+      await loginAttemptService.recordFailure(attempt, "invalid_two_factor");
+      throw new Error("Invalid two-factor code");
+    }
+
+    await loginAttemptService.recordSuccess(attempt);
+    return this.issueSession(user, session);
+  },
+
+  /**
+   * Finish a login that was held back because 2FA is mandatory
+   * 
+   * @param challengeToken - Setup token returned by login
+   * @param code - Code from the newly enrolled authenticator app
+   * @param session - Client details stored with the refresh token
+   * @returns Recovery codes plus user object, access token and refresh token
+   * @throws LoginThrottledError if the account is locked or in a delay
+   * @throws Error if the challenge token or code is invalid
+   * 
+   * The client first calls two-factor setup with the same challenge token to get the secret.
+   * Wrong codes count as failed logins, as on the regular second login step.
+   */
+  async completeTwoFactorSetupLogin(challengeToken: string, code: string, session: SessionInfo = {}) {
+    const user = await this.verifyChallengeToken(challengeToken, "two_factor_setup");
+    const attempt = { email: user.email, userId: user.id, ipAddress: session.ipAddress, userAgent: session.userAgent };
+
+    await loginAttemptService.assertIpAllowed(attempt);
+    await loginAttemptService.assertAccountAllowed(attempt, user);
+
+    let recoveryCodes: string[];
+    try {
+      ({ recoveryCodes } = await twoFactorService.confirmSetup(user.id, code));
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid two-factor code") {
+        await loginAttemptService.recordFailure(attempt, "invalid_two_factor");
+      }
+      throw error;
+    }
+
+    await loginAttemptService.recordSuccess(attempt);
+    const result = await this.issueSession(user, session);
+    return { ...result, recoveryCodes };
+  },
+
+  /**
+   * Exchange a refresh token for a new access token and refresh token
+   * 
+   * @param refreshToken - Refresh token issued by login, register or a previous refresh
+   * @param session - Client details stored with the new refresh token
+   * @returns New access token and rotated refresh token
+   * @throws Error if the token is unknown, expired, revoked, or the account is deactivated
+   * 
+   * Each refresh token can be used once. Presenting a token that was already rotated
+   * means it was copied, so the whole token family (that login session) is revoked.
+   */
+  async refresh(refreshToken: string, session: SessionInfo = {}) {
+    const result = await withTransaction(async (client) => {
+      const tokenResult = await client.query(
+        `SELECT rt.*, u.email, u.role, u.is_active, u.token_version
+         FROM refresh_tokens rt
+         JOIN users u ON rt.user_id = u.id
+         WHERE rt.token_hash = $1
+         FOR UPDATE OF rt`,
+        [hashToken(refreshToken)]
+      );
+
+      if (tokenResult.rows.length === 0) {
+        return { error: "Invalid refresh token" };
+      }
+
+      const stored = tokenResult.rows[0];
+
+      if (stored.revoked_at) {
+        // Reuse of a rotated or revoked token: end the whole session
+        await client.query(
+          "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = $1 AND revoked_at IS NULL",
+          [stored.family_id]
+        );
+        return { error: "Refresh token has been revoked" };
+      }
+
+      if (new Date(stored.expires_at) <= new Date()) {
+        return { error: "Refresh token has expired" };
+      }
+
+      if (!stored.is_active) {
+        await client.query(
+          "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+          [stored.user_id]
+        );
+        return { error: "Account is deactivated" };
+      }
+
+      // Rotate: issue the next token in the family and retire this one
+      const next = await createRefreshToken(stored.user_id, session, stored.family_id, client);
+      await client.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP, replaced_by = $1 WHERE id = $2",
+        [next.id, stored.id]
+      );
+
+      return {
+        token: signAccessToken({
+          id: stored.user_id,
+          email: stored.email,
+          role: stored.role,
+          token_version: stored.token_version,
+        }),
+        refreshToken: next.token,
+      };
+    });
+
+    // Thrown after commit so a detected reuse stays revoked
+    if ("error" in result) {
+      throw new Error(result.error);
+    }
+
+    return result;
+  },
+
+  /**
+   * Log out of one session
+   * 
+   * @param refreshToken - Refresh token of the session to end
+   * 
+   * Revokes every token in the session's family. Unknown tokens are ignored so
+   * logout always succeeds from the client's point of view.
+   */
+  async logout(refreshToken: string) {
+    await query(
+      `UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP
+       WHERE family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = $1)
+       AND revoked_at IS NULL`,
+      [hashToken(refreshToken)]
+    );
+    return { message: "Logged out successfully" };
+  },
+
+  /**
+   * Log out of every device
+   * 
+   * @param userId - User whose sessions are ended
+   * 
+   * Revokes all refresh tokens and bumps the user's token version, which
+   * invalidates access tokens that have already been issued.
+   */
+  async logoutAll(userId: string) {
+    await withTransaction(async (client) => {
+      await client.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+        [userId]
+      );
+      await client.query("UPDATE users SET token_version = token_version + 1 WHERE id = $1", [userId]);
+    });
+    return { message: "Logged out of all devices" };
+  },
+
+  /**
+   * Send a password reset link
+   * 
+   * @param email - Address the user registered with
+   * 
+   * Always succeeds without saying whether the address exists, so the endpoint
+   * cannot be used to discover registered emails. Deactivated accounts get no email.
+   * The email is sent in the background; send failures are logged, never returned.
+   */
+  async forgotPassword(email: string) {
+    const result = await query("SELECT id, email FROM users WHERE email = $1 AND is_active = true", [email]);
+
+    if (result.rows.length > 0) {
+      const user = result.rows[0];
+      // Not awaited, so a slow or failing send does not make registered emails respond differently
+      createUserToken(user.id, "password_reset", PASSWORD_RESET_EXPIRES_MINUTES)
+        .then((token) => mailService.sendPasswordReset(user.email, token, PASSWORD_RESET_EXPIRES_MINUTES))
+        .catch((error) => console.error("Failed to send password reset email:", error));
+    }
+
+    return { message: "If an account exists for this email, a reset link has been sent" };
+  },
+
+  /**
+   * Set a new password using a reset token
+   * 
+   * @param token - Token from the reset email
+   * @param password - New password
+   * @throws Error if the token is invalid, used or expired
+   * 
+   * Ends every existing session, since a reset usually means the old password
+   * may be known to someone else. Completing a reset also proves the user owns
+   * the email address, so it is marked verified.
+   */
+  async resetPassword(token: string, password: string) {
+    const passwordHash = await bcrypt.hash(password, 10);
+
+    await withTransaction(async (client) => {
+      const { userId } = await consumeUserToken(client, token, "password_reset");
+
+      await client.query(
+        `UPDATE users
+         SET password_hash = $1,
+             token_version = token_version + 1,
+             email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+         WHERE id = $2`,
+        [passwordHash, userId]
+      );
+      await client.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+        [userId]
+      );
+    });
+
+    return { message: "Password has been reset. Please log in with your new password" };
+  },
+
+  /**
+   * Email a new verification link
+   * 
+   * @param userId - User to verify
+   * @throws Error if the user does not exist or is already verified
+   */
+  async sendVerificationEmail(userId: string) {
+    const result = await query("SELECT id, email, email_verified_at FROM users WHERE id = $1", [userId]);
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+
+    const user = result.rows[0];
+    if (user.email_verified_at) {
+      throw new Error("Email is already verified");
+    }
+
+    const token = await createUserToken(user.id, "email_verification", EMAIL_VERIFICATION_EXPIRES_HOURS * 60);
+    await mailService.sendEmailVerification(user.email, token, EMAIL_VERIFICATION_EXPIRES_HOURS);
+
+    return { message: "Verification email sent" };
+  },
+
+  /**
+   * Confirm an email address using a verification token
+   * 
+   * @param token - Token from the verification email
+   * @throws Error if the token is invalid, used or expired
+   */
+  async verifyEmail(token: string) {
+    await withTransaction(async (client) => {
+      const { userId } = await consumeUserToken(client, token, "email_verification");
+      await client.query(
+        "UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = $1",
+        [userId]
+      );
+    });
+
+    return { message: "Email verified successfully" };
+  },
+
+  /**
+   * Change the password of a signed-in user
+   * 
+   * @param userId - Authenticated user
+   * @param data - Current password and new password
+   * @param session - Client details for the replacement refresh token
+   * @returns New access and refresh tokens for the current device
+   * @throws Error if the current password is wrong
+   * 
+   * Every existing session (including other devices) is logged out; the caller
+   * gets fresh tokens so the device that made the change stays signed in.
+   */
+  async changePassword(userId: string, data: z.infer<typeof changePasswordSchema>, session: SessionInfo = {}) {
+    const result = await query(
+      "SELECT id, email, password_hash, role, token_version FROM users WHERE id = $1 AND is_active = true",
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+
+    const user = result.rows[0];
+    const isValidPassword = await bcrypt.compare(data.currentPassword, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error("Current password is incorrect");
+    }
+
+    const passwordHash = await bcrypt.hash(data.newPassword, 10);
+
+    const updated = await withTransaction(async (client) => {
+      const updateResult = await client.query(
+        "UPDATE users SET password_hash = $1, token_version = token_version + 1 WHERE id = $2 RETURNING token_version",
+        [passwordHash, userId]
+      );
+      await client.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+        [userId]
+      );
+      return updateResult.rows[0];
+    });
+
+    try {
+      await mailService.sendPasswordChangedNotice(user.email);
+    } catch (error) {
+      console.error("Failed to send password change notice:", error);
+    }
+
+    const refreshToken = await createRefreshToken(userId, session);
+
+    return {
+      message: "Password changed successfully. Other sessions have been logged out",
+      token: signAccessToken({ ...user, token_version: updated.token_version }),
+      refreshToken: refreshToken.token,
+    };
+  },
+
+  /**
+   * Start an email change
+   * 
+   * @param userId - Authenticated user
+   * @param data - New email address and current password
+   * @throws Error if the password is wrong or the address is already in use
+   * 
+   * The account keeps its current email until the link sent to the new address
+   * is opened. The current address is told about the request.
+   */
+  async requestEmailChange(userId: string, data: z.infer<typeof changeEmailSchema>) {
+    const result = await query("SELECT id, email, password_hash FROM users WHERE id = $1 AND is_active = true", [
+      userId,
+    ]);
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+
+    const user = result.rows[0];
+    const isValidPassword = await bcrypt.compare(data.currentPassword, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error("Current password is incorrect");
+    }
+
+    const newEmail = data.newEmail;
+    if (newEmail.toLowerCase() === user.email.toLowerCase()) {
+      throw new Error("New email must be different from the current email");
+    }
+
+    const existingUser = await query("SELECT id FROM users WHERE email = $1", [newEmail]);
+    if (existingUser.rows.length > 0) {
+      throw new Error("User with this email already exists");
+    }
+
+    const token = await createUserToken(user.id, "email_change", EMAIL_VERIFICATION_EXPIRES_HOURS * 60, newEmail);
+    await mailService.sendEmailChangeConfirmation(newEmail, token, EMAIL_VERIFICATION_EXPIRES_HOURS);
+
+    try {
+      await mailService.sendEmailChangeNotice(user.email, newEmail);
+    } catch (error) {
+      console.error("Failed to send email change notice:", error);
+    }
+
+    return { message: `A confirmation link has been sent to ${newEmail}` };
+  },
+
+  /**
+   * Complete an email change using the token sent to the new address
+   * 
+   * @param token - Token from the confirmation email
+   * @throws Error if the token is invalid, used or expired, or the address was taken meanwhile
+   */
+  async confirmEmailChange(token: string) {
+    const email = await withTransaction(async (client) => {
+      const { userId, newEmail } = await consumeUserToken(client, token, "email_change");
+
+      const existingUser = await client.query("SELECT id FROM users WHERE email = $1 AND id <> $2", [
+        newEmail,
+        userId,
+      ]);
+      if (existingUser.rows.length > 0) {
+        throw new Error("User with this email already exists");
+      }
+
+      // Opening the link proves ownership of the new address
+      await client.query("UPDATE users SET email = $1, email_verified_at = CURRENT_TIMESTAMP WHERE id = $2", [
+        newEmail,
+        userId,
+      ]);
+      return newEmail;
+    });
+
+    return { message: "Email changed successfully", email };
+  },
+
   /**
    * Get user by ID
    * 
@@ -182,7 +894,7 @@ export const authService = {
    */
   async getUserById(userId: string): Promise<User | null> {
     const result = await query(
-      "SELECT id, email, first_name, last_name, phone, role, is_active, created_at FROM users WHERE id = $1",
+      "SELECT id, email, first_name, last_name, phone, role, is_active, email_verified_at, created_at FROM users WHERE id = $1",
       [userId]
     );
 
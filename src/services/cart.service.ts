@@ -1,8 +1,17 @@
-import { query } from "../config/database";
+import jwt from "jsonwebtoken";
+import { query, withTransaction } from "../config/database";
 import { z } from "zod";
+import { inventoryService, heldQuantitySql } from "./inventory.service";
+
+// Guest carts are identified by a signed token the client sends in this header
+export const CART_TOKEN_HEADER = "x-cart-token";
+const CART_TOKEN_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
+const GUEST_CART_EXPIRES_DAYS = parseInt(process.env.GUEST_CART_EXPIRES_DAYS || "30");
 
 export const addToCartSchema = z.object({
   productId: z.string().uuid("Invalid product ID"),
+  // Required for products with variants
+  variantId: z.string().uuid("Invalid variant ID").optional(),
   quantity: z.number().int().positive("Quantity must be positive"),
 });
 
@@ -10,14 +19,39 @@ export const updateCartItemSchema = z.object({
   quantity: z.number().int().positive("Quantity must be positive"),
 });
 
+/**
+ * Price, available stock and availability of a cart line's product or variant
+ * (expects the cart aliased as c, products as p and product_variants LEFT JOINed as v).
+ * Available stock is on-hand stock minus units held for orders awaiting payment.
+ */
+export const LINE_PRICE = "COALESCE(v.price, p.price)";
+export const LINE_STOCK = `(CASE WHEN c.variant_id IS NULL THEN p.stock_quantity ELSE v.stock_quantity END
+  - ${heldQuantitySql("c.product_id", "c.variant_id")})`;
+export const LINE_ACTIVE = "(p.is_active AND p.deleted_at IS NULL AND COALESCE(v.is_active, true))";
+
+/**
+ * Who a cart belongs to: a signed-in user or an anonymous guest cart
+ */
+export type CartOwner = { userId: string; guestCartId?: undefined } | { guestCartId: string; userId?: undefined };
+
+/**
+ * Column and value that select an owner's cart rows
+ */
+export const cartOwnerColumn = (owner: CartOwner) =>
+  owner.userId
+    ? { column: "user_id", value: owner.userId }
+    : { column: "guest_cart_id", value: owner.guestCartId as string };
+
 export interface CartItem {
   id: string;
-  user_id: string;
+  user_id: string | null;
+  guest_cart_id: string | null;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
   created_at: Date;
   updated_at: Date;
-  // Joined product data
+  // Joined product data (price, image and stock of the variant when there is one)
   product?: {
     id: string;
     name: string;
@@ -25,16 +59,110 @@ export interface CartItem {
     image_url: string | null;
     stock_quantity: number;
   };
+  variant?: {
+    id: string;
+    sku: string;
+    options: Record<string, string>;
+  } | null;
 }
 
 export const cartService = {
+  // Start an anonymous cart and return the signed token that identifies it
+  async createGuestCart() {
+    const result = await query("INSERT INTO guest_carts DEFAULT VALUES RETURNING id");
+    const guestCartId: string = result.rows[0].id;
+    const cartToken = jwt.sign({ cartId: guestCartId, purpose: "guest_cart" }, CART_TOKEN_SECRET, {
+      expiresIn: `${GUEST_CART_EXPIRES_DAYS}d`,
+    });
+    return { guestCartId, cartToken };
+  },
+
+  // Resolve a cart token to its guest cart ID (null if invalid, expired or already merged)
+  async resolveGuestCart(cartToken: string): Promise<string | null> {
+    try {
+      const decoded = jwt.verify(cartToken, CART_TOKEN_SECRET) as { cartId?: string; purpose?: string };
+      if (decoded.purpose !== "guest_cart" || !decoded.cartId) {
+        return null;
+      }
+      const result = await query("SELECT id FROM guest_carts WHERE id = $1", [decoded.cartId]);
+      return result.rows.length > 0 ? result.rows[0].id : null;
+    } catch (error) {
+      return null;
+    }
+  },
+
+  // Move a guest cart into the user's cart after login or registration.
+  // Quantities for the same product (or variant) are added together but capped
+  // at the available stock; unavailable products are dropped. The guest cart is deleted.
+  async mergeGuestCart(cartToken: string, userId: string) {
+    const guestCartId = await this.resolveGuestCart(cartToken);
+    if (!guestCartId) {
+      return null;
+    }
+
+    return withTransaction(async (client) => {
+      // Lock the guest cart so a concurrent merge of the same token does nothing
+      const cartResult = await client.query("SELECT id FROM guest_carts WHERE id = $1 FOR UPDATE", [guestCartId]);
+      if (cartResult.rows.length === 0) {
+        return null;
+      }
+
+      const itemsResult = await client.query(
+        `SELECT c.product_id, c.variant_id, c.quantity AS guest_quantity, COALESCE(u.quantity, 0) AS user_quantity,
+                ${LINE_STOCK} AS stock_quantity, ${LINE_ACTIVE} AS is_active
+         FROM cart c
+         JOIN products p ON c.product_id = p.id
+         LEFT JOIN product_variants v ON c.variant_id = v.id
+         LEFT JOIN cart u ON u.user_id = $2 AND u.product_id = c.product_id
+           AND u.variant_id IS NOT DISTINCT FROM c.variant_id
+         WHERE c.guest_cart_id = $1`,
+        [guestCartId, userId]
+      );
+
+      const adjusted: Array<{ productId: string; variantId: string | null; requested: number; quantity: number }> = [];
+      let merged = 0;
+
+      for (const item of itemsResult.rows) {
+        const requested = item.user_quantity + item.guest_quantity;
+        const quantity = item.is_active ? Math.min(requested, item.stock_quantity) : 0;
+
+        if (quantity !== requested) {
+          adjusted.push({ productId: item.product_id, variantId: item.variant_id, requested, quantity });
+        }
+        if (quantity <= 0 || quantity === item.user_quantity) {
+          continue;
+        }
+
+        // Conflict targets match the partial unique indexes on cart
+        const conflictTarget = item.variant_id
+          ? "(user_id, variant_id) WHERE variant_id IS NOT NULL"
+          : "(user_id, product_id) WHERE variant_id IS NULL";
+        await client.query(
+          `INSERT INTO cart (user_id, product_id, variant_id, quantity) VALUES ($1, $2, $3, $4)
+           ON CONFLICT ${conflictTarget} DO UPDATE SET quantity = EXCLUDED.quantity`,
+          [userId, item.product_id, item.variant_id, quantity]
+        );
+        merged++;
+      }
+
+      // Deleting the guest cart removes its items and invalidates the token
+      await client.query("DELETE FROM guest_carts WHERE id = $1", [guestCartId]);
+
+      return { merged, adjusted };
+    });
+  },
+
   // Add item to cart
-  async addItem(userId: string, data: z.infer<typeof addToCartSchema>) {
-    const { productId, quantity } = data;
+  // Products with variants need a variantId; available stock is checked for that variant
+  async addItem(owner: CartOwner, data: z.infer<typeof addToCartSchema>) {
+    const { productId, variantId, quantity } = data;
+    const { column, value } = cartOwnerColumn(owner);
 
     // Check if product exists and is available
     const productResult = await query(
-      "SELECT id, name, price, image_url, stock_quantity, is_active FROM products WHERE id = $1",
+      `SELECT id, name, price, image_url, stock_quantity, is_active,
+              EXISTS (SELECT 1 FROM product_variants v WHERE v.product_id = products.id) AS has_variants
+       FROM products WHERE id = $1 AND deleted_at IS NULL`,
       [productId]
     );
 
@@ -48,57 +176,82 @@ export const cartService = {
       throw new Error("Product is not available");
     }
 
-    if (product.stock_quantity < quantity) {
+    let stockQuantity = product.stock_quantity;
+    if (product.has_variants || variantId) {
+      if (!variantId) {
+        throw new Error("Please select a variant");
+      }
+      const variantResult = await query(
+        "SELECT stock_quantity, is_active FROM product_variants WHERE id = $1 AND product_id = $2",
+        [variantId, productId]
+      );
+      if (variantResult.rows.length === 0) {
+        throw new Error("Variant not found");
+      }
+      if (!variantResult.rows[0].is_active) {
+        throw new Error("Variant is not available");
+      }
+      stockQuantity = variantResult.rows[0].stock_quantity;
+    }
+    stockQuantity -= await inventoryService.getHeldQuantity(productId, variantId);
+
+    if (stockQuantity < quantity) {
       throw new Error("Insufficient stock");
     }
 
     // Check if item already exists in cart
     const existingItem = await query(
-      "SELECT id, quantity FROM cart WHERE user_id = $1 AND product_id = $2",
-      [userId, productId]
+      `SELECT id, quantity FROM cart
+       WHERE ${column} = $1 AND product_id = $2 AND variant_id IS NOT DISTINCT FROM $3`,
+      [value, productId, variantId || null]
     );
 
     if (existingItem.rows.length > 0) {
       // Update quantity
       const newQuantity = existingItem.rows[0].quantity + quantity;
-      if (product.stock_quantity < newQuantity) {
+      if (stockQuantity < newQuantity) {
         throw new Error("Insufficient stock");
       }
 
-      const result = await query(
-        "UPDATE cart SET quantity = $1 WHERE user_id = $2 AND product_id = $3 RETURNING *",
-        [newQuantity, userId, productId]
-      );
+      const result = await query(`UPDATE cart SET quantity = $1 WHERE id = $2 RETURNING *`, [
+        newQuantity,
+        existingItem.rows[0].id,
+      ]);
 
       return result.rows[0];
     } else {
       // Insert new item
       const result = await query(
-        "INSERT INTO cart (user_id, product_id, quantity) VALUES ($1, $2, $3) RETURNING *",
-        [userId, productId, quantity]
+        `INSERT INTO cart (${column}, product_id, variant_id, quantity) VALUES ($1, $2, $3, $4) RETURNING *`,
+        [value, productId, variantId || null, quantity]
       );
 
       return result.rows[0];
     }
   },
 
-  // Get user's cart with product details
-  async getCart(userId: string): Promise<CartItem[]> {
+  // Get cart with product details
+  async getCart(owner: CartOwner): Promise<CartItem[]> {
+    const { column, value } = cartOwnerColumn(owner);
     const result = await query(
       `SELECT 
-        c.id, c.user_id, c.product_id, c.quantity, c.created_at, c.updated_at,
-        p.id as product_id_full, p.name, p.price, p.image_url, p.stock_quantity
+        c.id, c.user_id, c.guest_cart_id, c.product_id, c.variant_id, c.quantity, c.created_at, c.updated_at,
+        p.id as product_id_full, p.name, ${LINE_PRICE} as price, COALESCE(v.image_url, p.image_url) as image_url,
+        ${LINE_STOCK} as stock_quantity, v.sku as variant_sku, v.options as variant_options
       FROM cart c
       JOIN products p ON c.product_id = p.id
-      WHERE c.user_id = $1
+      LEFT JOIN product_variants v ON c.variant_id = v.id
+      WHERE c.${column} = $1
       ORDER BY c.created_at DESC`,
-      [userId]
+      [value]
     );
 
     return result.rows.map((row) => ({
       id: row.id,
       user_id: row.user_id,
+      guest_cart_id: row.guest_cart_id,
       product_id: row.product_id,
+      variant_id: row.variant_id,
       quantity: row.quantity,
       created_at: row.created_at,
       updated_at: row.updated_at,
@@ -109,18 +262,22 @@ export const cartService = {
         image_url: row.image_url,
         stock_quantity: row.stock_quantity,
       },
+      variant: row.variant_id ? { id: row.variant_id, sku: row.variant_sku, options: row.variant_options } : null,
     }));
   },
 
   // Update cart item quantity
-  async updateItem(userId: string, cartItemId: string, data: z.infer<typeof updateCartItemSchema>) {
+  async updateItem(owner: CartOwner, cartItemId: string, data: z.infer<typeof updateCartItemSchema>) {
+    const { column, value } = cartOwnerColumn(owner);
+
     // Get cart item with product info
     const cartItem = await query(
-      `SELECT c.*, p.stock_quantity, p.is_active
+      `SELECT c.*, ${LINE_STOCK} AS stock_quantity, ${LINE_ACTIVE} AS is_active
        FROM cart c
        JOIN products p ON c.product_id = p.id
-       WHERE c.id = $1 AND c.user_id = $2`,
-      [cartItemId, userId]
+       LEFT JOIN product_variants v ON c.variant_id = v.id
+       WHERE c.id = $1 AND c.${column} = $2`,
+      [cartItemId, value]
     );
 
     if (cartItem.rows.length === 0) {
@@ -138,18 +295,19 @@ export const cartService = {
     }
 
     const result = await query(
-      "UPDATE cart SET quantity = $1 WHERE id = $2 AND user_id = $3 RETURNING *",
-      [data.quantity, cartItemId, userId]
+      `UPDATE cart SET quantity = $1 WHERE id = $2 AND ${column} = $3 RETURNING *`,
+      [data.quantity, cartItemId, value]
     );
 
     return result.rows[0];
   },
 
   // Remove item from cart
-  async removeItem(userId: string, cartItemId: string) {
+  async removeItem(owner: CartOwner, cartItemId: string) {
+    const { column, value } = cartOwnerColumn(owner);
     const result = await query(
-      "DELETE FROM cart WHERE id = $1 AND user_id = $2 RETURNING *",
-      [cartItemId, userId]
+      `DELETE FROM cart WHERE id = $1 AND ${column} = $2 RETURNING *`,
+      [cartItemId, value]
     );
 
     if (result.rows.length === 0) {
@@ -159,20 +317,23 @@ export const cartService = {
     return { message: "Item removed from cart" };
   },
 
-  // Clear user's cart
-  async clearCart(userId: string) {
-    await query("DELETE FROM cart WHERE user_id = $1", [userId]);
+  // Clear cart
+  async clearCart(owner: CartOwner) {
+    const { column, value } = cartOwnerColumn(owner);
+    await query(`DELETE FROM cart WHERE ${column} = $1`, [value]);
     return { message: "Cart cleared" };
   },
 
   // Get cart total
-  async getCartTotal(userId: string): Promise<number> {
+  async getCartTotal(owner: CartOwner): Promise<number> {
+    const { column, value } = cartOwnerColumn(owner);
     const result = await query(
-      `SELECT SUM(c.quantity * p.price) as total
+      `SELECT SUM(c.quantity * ${LINE_PRICE}) as total
        FROM cart c
        JOIN products p ON c.product_id = p.id
-       WHERE c.user_id = $1`,
-      [userId]
+       LEFT JOIN product_variants v ON c.variant_id = v.id
+       WHERE c.${column} = $1`,
+      [value]
     );
 
     return parseFloat(result.rows[0]?.total || "0");
@@ -18,6 +18,7 @@ export interface Category {
   slug: string | null;
   image_url: string | null;
   is_active: boolean;
+  deleted_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -44,7 +45,7 @@ export const categoryService = {
 
   async getAll() {
     const result = await query(
-      "SELECT c.*, COUNT(p.id) as product_count FROM categories c LEFT JOIN products p ON p.category = c.name WHERE c.is_active = true GROUP BY c.id ORDER BY c.name"
+      "SELECT c.*, COUNT(p.id) as product_count FROM categories c LEFT JOIN products p ON p.category = c.name AND p.deleted_at IS NULL WHERE c.is_active = true AND c.deleted_at IS NULL GROUP BY c.id ORDER BY c.name"
     );
     return result.rows.map((row) => ({
       ...row,
@@ -53,7 +54,7 @@ export const categoryService = {
   },
 
   async getById(id: string): Promise<Category | null> {
-    const result = await query("SELECT * FROM categories WHERE id = $1", [id]);
+    const result = await query("SELECT * FROM categories WHERE id = $1 AND deleted_at IS NULL", [id]);
     return result.rows.length > 0 ? result.rows[0] : null;
   },
 
@@ -90,16 +91,57 @@ export const categoryService = {
     values.push(id);
 
     const result = await query(
-      `UPDATE categories SET ${updates.join(", ")} WHERE id = $${paramCount} RETURNING *`,
+      `UPDATE categories SET ${updates.join(", ")} WHERE id = $${paramCount} AND deleted_at IS NULL RETURNING *`,
       values
     );
 
     return result.rows[0];
   },
 
+  // Archive (soft delete) a category; its products keep their category name
   async delete(id: string) {
+    const result = await query(
+      "UPDATE categories SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL RETURNING id",
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("Category not found");
+    }
+    return { message: "Category archived successfully" };
+  },
+
+  async getArchived(): Promise<Category[]> {
+    const result = await query("SELECT * FROM categories WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC");
+    return result.rows;
+  },
+
+  async restore(id: string): Promise<Category> {
+    const result = await query(
+      "UPDATE categories SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *",
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("Archived category not found");
+    }
+    return result.rows[0];
+  },
+
+  // Permanently delete an archived category, unless products (and so their orders) still use it
+  async purge(id: string) {
+    const result = await query(
+      `SELECT c.id, (SELECT COUNT(*)::int FROM products p WHERE p.category = c.name) AS product_count
+       FROM categories c WHERE c.id = $1 AND c.deleted_at IS NOT NULL`,
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("Archived category not found");
+    }
+    if (result.rows[0].product_count > 0) {
+      throw new Error(`Category is still assigned to ${result.rows[0].product_count} product(s) and cannot be purged`);
+    }
+
     await query("DELETE FROM categories WHERE id = $1", [id]);
-    return { message: "Category deleted successfully" };
+    return { message: "Category purged successfully" };
   },
 };
 
@@ -1,13 +1,24 @@
+import { PoolClient } from "pg";
 import { query } from "../config/database";
 import { z } from "zod";
 
+// No free shipping type: orders carry no shipping charge for it to waive
+export const DISCOUNT_TYPES = ["percentage", "fixed", "buy_x_get_y"] as const;
+
 export const createCouponSchema = z.object({
   code: z.string().min(1, "Coupon code is required"),
-  discountType: z.enum(["percentage", "fixed"]),
-  discountValue: z.number().positive("Discount value must be positive"),
+  discountType: z.enum(DISCOUNT_TYPES),
+  // Percentage off, fixed amount off, or percentage off the "get" items for buy_x_get_y.
+  discountValue: z.number().min(0, "Discount value cannot be negative").default(0),
   minPurchaseAmount: z.number().min(0).optional(),
   maxDiscountAmount: z.number().positive().optional(),
   usageLimit: z.number().int().positive().optional(),
+  perUserLimit: z.number().int().positive().optional(),
+  firstOrderOnly: z.boolean().default(false),
+  productIds: z.array(z.string().uuid("Invalid product ID")).optional(),
+  categoryIds: z.array(z.string().uuid("Invalid category ID")).optional(),
+  buyQuantity: z.number().int().positive().optional(),
+  getQuantity: z.number().int().positive().optional(),
   validFrom: z.string().datetime(),
   validUntil: z.string().datetime(),
   isActive: z.boolean().default(true),
@@ -15,6 +26,20 @@ export const createCouponSchema = z.object({
 
 export const updateCouponSchema = createCouponSchema.partial();
 
+export const validateCouponSchema = z.object({
+  code: z.string().min(1, "Coupon code is required"),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().uuid("Invalid product ID"),
+        variantId: z.string().uuid("Invalid variant ID").optional(),
+        quantity: z.number().int().positive("Quantity must be positive"),
+      })
+    )
+    .optional(),
+  orderAmount: z.coerce.number().positive().optional(),
+});
+
 export interface Coupon {
   id: string;
   code: string;
@@ -24,6 +49,12 @@ export interface Coupon {
   max_discount_amount: number | null;
   usage_limit: number | null;
   used_count: number;
+  per_user_limit: number | null;
+  first_order_only: boolean;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
   valid_from: Date;
   valid_until: Date;
   is_active: boolean;
@@ -31,6 +62,64 @@ export interface Coupon {
   updated_at: Date;
 }
 
+/**
+ * A cart line as seen by coupon validation
+ * category is the product's category name (products.category)
+ */
+export interface CouponCartLine {
+  productId: string;
+  category: string | null;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Who is redeeming and what they are buying
+ */
+export interface CouponContext {
+  userId?: string;
+  lines: CouponCartLine[];
+}
+
+export interface CouponLineDiscount {
+  productId: string;
+  quantity: number;
+  lineTotal: number;
+  discount: number;
+}
+
+export interface CouponValidation {
+  valid: boolean;
+  discount: number;
+  lines?: CouponLineDiscount[];
+  message?: string;
+}
+
+const roundCurrency = (amount: number) => Math.round(amount * 100) / 100;
+
+const invalid = (message: string): CouponValidation => ({ valid: false, discount: 0, message });
+
+/**
+ * Spread an amount across lines in proportion to their weight,
+ * assigning the rounding remainder to the last line so the parts add up exactly.
+ */
+const allocate = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+
+  let allocated = 0;
+  return weights.map((weight, index) => {
+    if (index === weights.length - 1) {
+      return roundCurrency(amount - allocated);
+    }
+    const share = roundCurrency((amount * weight) / totalWeight);
+    allocated += share;
+    return share;
+  });
+};
+
 export const couponService = {
   async create(data: z.infer<typeof createCouponSchema>) {
     // Check if code already exists
@@ -39,11 +128,14 @@ export const couponService = {
       throw new Error("Coupon code already exists");
     }
 
+    this.assertDiscountRules(data.discountType, data.discountValue, data.buyQuantity, data.getQuantity);
+
     const result = await query(
       `INSERT INTO coupons (
         code, discount_type, discount_value, min_purchase_amount, max_discount_amount,
-        usage_limit, valid_from, valid_until, is_active
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        usage_limit, per_user_limit, first_order_only, product_ids, category_ids,
+        buy_quantity, get_quantity, valid_from, valid_until, is_active
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       RETURNING *`,
       [
         data.code.toUpperCase(),
@@ -52,6 +144,12 @@ export const couponService = {
         data.minPurchaseAmount || 0,
         data.maxDiscountAmount || null,
         data.usageLimit || null,
+        data.perUserLimit || null,
+        data.firstOrderOnly,
+        data.productIds && data.productIds.length > 0 ? data.productIds : null,
+        data.categoryIds && data.categoryIds.length > 0 ? data.categoryIds : null,
+        data.buyQuantity || null,
+        data.getQuantity || null,
         data.validFrom,
         data.validUntil,
         data.isActive,
@@ -81,37 +179,279 @@ export const couponService = {
     return result.rows.length > 0 ? result.rows[0] : null;
   },
 
-  async validateCoupon(code: string, orderAmount: number): Promise<{ valid: boolean; discount: number; message?: string }> {
-    const coupon = await this.getByCode(code);
-    
-    if (!coupon) {
-      return { valid: false, discount: 0, message: "Invalid coupon code" };
+  // Ensure the discount fields make sense for the discount type
+  assertDiscountRules(
+    discountType: string,
+    discountValue: number | undefined,
+    buyQuantity?: number | null,
+    getQuantity?: number | null
+  ) {
+    if (!discountValue || discountValue <= 0) {
+      throw new Error("Discount value must be positive");
+    }
+    if ((discountType === "percentage" || discountType === "buy_x_get_y") && discountValue > 100) {
+      throw new Error("Percentage discount cannot exceed 100");
+    }
+    if (discountType === "buy_x_get_y" && (!buyQuantity || !getQuantity)) {
+      throw new Error("Buy and get quantities are required for buy X get Y coupons");
     }
+  },
+
+  // Validate a coupon code for a user's cart and compute the per-line discount.
+  // Pass a transaction client to validate against locked rows during checkout.
+  async validateCoupon(code: string, context: CouponContext, client?: PoolClient): Promise<CouponValidation> {
+    const db = (text: string, params?: unknown[]) => (client ? client.query(text, params) : query(text, params));
 
+    const couponResult = await db(
+      `SELECT * FROM coupons WHERE code = $1 AND is_active = true${client ? " FOR UPDATE" : ""}`,
+      [code.toUpperCase()]
+    );
+    if (couponResult.rows.length === 0) {
+      return invalid("Invalid coupon code");
+    }
+    const coupon: Coupon = couponResult.rows[0];
+
+    // Per-user restrictions need to know who is redeeming
+    if (coupon.per_user_limit || coupon.first_order_only) {
+      if (!context.userId) {
+        return invalid("Sign in to use this coupon");
+      }
+
+      if (coupon.per_user_limit) {
+        const usedResult = await db(
+          `SELECT COUNT(*) as count FROM coupon_redemptions
+           WHERE coupon_id = $1 AND user_id = $2 AND released_at IS NULL`,
+          [coupon.id, context.userId]
+        );
+        if (parseInt(usedResult.rows[0].count) >= coupon.per_user_limit) {
+          return invalid("You have already used this coupon");
+        }
+      }
+
+      if (coupon.first_order_only) {
+        const ordersResult = await db(
+          "SELECT COUNT(*) as count FROM orders WHERE user_id = $1 AND status != 'cancelled'",
+          [context.userId]
+        );
+        if (parseInt(ordersResult.rows[0].count) > 0) {
+          return invalid("Coupon is only valid on your first order");
+        }
+      }
+    }
+
+    // Resolve category scope to names, since products reference categories by name
+    let categoryNames: string[] = [];
+    if (coupon.category_ids && coupon.category_ids.length > 0) {
+      const categoriesResult = await db("SELECT name FROM categories WHERE id = ANY($1)", [coupon.category_ids]);
+      categoryNames = categoriesResult.rows.map((row) => row.name);
+    }
+
+    return this.evaluate(coupon, context.lines, categoryNames);
+  },
+
+  // Check a loaded coupon against cart lines and compute the discount per line.
+  // Lines outside the coupon's product/category scope get no discount, and
+  // no line is discounted below zero.
+  evaluate(coupon: Coupon, lines: CouponCartLine[], categoryNames: string[] = []): CouponValidation {
     const now = new Date();
     if (new Date(coupon.valid_from) > now || new Date(coupon.valid_until) < now) {
-      return { valid: false, discount: 0, message: "Coupon has expired" };
+      return invalid("Coupon has expired");
     }
 
     if (coupon.usage_limit && coupon.used_count >= coupon.usage_limit) {
-      return { valid: false, discount: 0, message: "Coupon usage limit reached" };
+      return invalid("Coupon usage limit reached");
+    }
+
+    // Coupons of a retired type (e.g. free shipping) would use up a redemption without discounting anything
+    if (!(DISCOUNT_TYPES as readonly string[]).includes(coupon.discount_type)) {
+      return invalid("This coupon type is not supported");
     }
 
-    if (orderAmount < coupon.min_purchase_amount) {
-      return { valid: false, discount: 0, message: `Minimum purchase amount is $${coupon.min_purchase_amount}` };
+    const orderAmount = roundCurrency(lines.reduce((sum, line) => sum + line.price * line.quantity, 0));
+    const minPurchaseAmount = parseFloat(String(coupon.min_purchase_amount || 0));
+    if (orderAmount < minPurchaseAmount) {
+      return invalid(`Minimum purchase amount is $${coupon.min_purchase_amount}`);
     }
 
-    let discount = 0;
+    // A line is eligible when the coupon is unscoped or the line matches a scoped product or category
+    const productIds = coupon.product_ids || [];
+    const isScoped = productIds.length > 0 || (coupon.category_ids || []).length > 0;
+    const isEligible = (line: CouponCartLine) =>
+      !isScoped ||
+      productIds.includes(line.productId) ||
+      (line.category !== null && categoryNames.includes(line.category));
+
+    const eligibleIndexes = lines.map((line, index) => (isEligible(line) ? index : -1)).filter((index) => index >= 0);
+    if (eligibleIndexes.length === 0) {
+      return invalid("Coupon does not apply to any items in your cart");
+    }
+
+    const discountValue = parseFloat(String(coupon.discount_value));
+    const maxDiscountAmount = coupon.max_discount_amount !== null ? parseFloat(String(coupon.max_discount_amount)) : null;
+    const lineDiscounts = lines.map(() => 0);
+
     if (coupon.discount_type === "percentage") {
-      discount = (orderAmount * coupon.discount_value) / 100;
-      if (coupon.max_discount_amount && discount > coupon.max_discount_amount) {
-        discount = coupon.max_discount_amount;
+      for (const index of eligibleIndexes) {
+        lineDiscounts[index] = (lines[index].price * lines[index].quantity * discountValue) / 100;
       }
-    } else {
-      discount = coupon.discount_value;
+    } else if (coupon.discount_type === "fixed") {
+      const eligibleTotal = eligibleIndexes.reduce((sum, index) => sum + lines[index].price * lines[index].quantity, 0);
+      const shares = allocate(
+        Math.min(discountValue, eligibleTotal),
+        eligibleIndexes.map((index) => lines[index].price * lines[index].quantity)
+      );
+      eligibleIndexes.forEach((lineIndex, position) => {
+        lineDiscounts[lineIndex] = shares[position];
+      });
+    } else if (coupon.discount_type === "buy_x_get_y") {
+      // Walk eligible units from most to least expensive; in every group of
+      // (buy + get) units the cheapest `get` units receive the discount.
+      const buyQuantity = coupon.buy_quantity || 0;
+      const getQuantity = coupon.get_quantity || 0;
+      const groupSize = buyQuantity + getQuantity;
+      const units = eligibleIndexes
+        .flatMap((index) => Array.from({ length: lines[index].quantity }, () => index))
+        .sort((a, b) => lines[b].price - lines[a].price);
+
+      if (groupSize === 0 || units.length < groupSize) {
+        return invalid(`Add ${groupSize} eligible items to use this coupon`);
+      }
+
+      units.forEach((lineIndex, position) => {
+        if (position % groupSize >= buyQuantity && position < units.length - (units.length % groupSize)) {
+          lineDiscounts[lineIndex] += (lines[lineIndex].price * discountValue) / 100;
+        }
+      });
+    }
+
+    // Apply the overall cap proportionally so the per-line breakdown stays consistent
+    let discount = lineDiscounts.reduce((sum, amount) => sum + amount, 0);
+    if (maxDiscountAmount && discount > maxDiscountAmount) {
+      const capped = allocate(maxDiscountAmount, lineDiscounts);
+      capped.forEach((amount, index) => {
+        lineDiscounts[index] = amount;
+      });
+    }
+
+    const breakdown: CouponLineDiscount[] = lines.map((line, index) => {
+      const lineTotal = roundCurrency(line.price * line.quantity);
+      return {
+        productId: line.productId,
+        quantity: line.quantity,
+        lineTotal,
+        discount: Math.min(roundCurrency(lineDiscounts[index]), lineTotal),
+      };
+    });
+    discount = roundCurrency(breakdown.reduce((sum, line) => sum + line.discount, 0));
+
+    return {
+      valid: true,
+      discount,
+      lines: breakdown,
+    };
+  },
+
+  // Load cart lines for coupon validation from product (and variant) ids and quantities
+  async buildLines(
+    items: Array<{ productId: string; variantId?: string; quantity: number }>
+  ): Promise<CouponCartLine[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    const result = await query("SELECT id, price, category FROM products WHERE id = ANY($1)", [
+      items.map((item) => item.productId),
+    ]);
+    const products = new Map(result.rows.map((row) => [row.id, row]));
+
+    const variantIds = items.filter((item) => item.variantId).map((item) => item.variantId);
+    const variantResult =
+      variantIds.length > 0
+        ? await query("SELECT id, product_id, price FROM product_variants WHERE id = ANY($1)", [variantIds])
+        : { rows: [] };
+    const variants = new Map(variantResult.rows.map((row) => [row.id, row]));
+
+    return items.map((item) => {
+      const product = products.get(item.productId);
+      if (!product) {
+        throw new Error("Product not found");
+      }
+      const variant = item.variantId ? variants.get(item.variantId) : null;
+      if (item.variantId && (!variant || variant.product_id !== item.productId)) {
+        throw new Error("Variant not found");
+      }
+      return {
+        productId: item.productId,
+        category: product.category,
+        quantity: item.quantity,
+        price: parseFloat(variant?.price ?? product.price),
+      };
+    });
+  },
+
+  // Load the user's current cart as coupon lines
+  async getCartLines(userId: string): Promise<CouponCartLine[]> {
+    const result = await query(
+      `SELECT c.product_id, c.quantity, COALESCE(v.price, p.price) AS price, p.category
+       FROM cart c
+       JOIN products p ON c.product_id = p.id
+       LEFT JOIN product_variants v ON c.variant_id = v.id
+       WHERE c.user_id = $1`,
+      [userId]
+    );
+
+    return result.rows.map((row) => ({
+      productId: row.product_id,
+      category: row.category,
+      quantity: row.quantity,
+      price: parseFloat(row.price),
+    }));
+  },
+
+  // Redeem a coupon inside the caller's checkout transaction.
+  // The coupon row is locked so the usage checks and the used_count
+  // increment cannot race with another checkout. Throws if the coupon is not valid.
+  async redeem(client: PoolClient, code: string, context: CouponContext) {
+    const validation = await this.validateCoupon(code, context, client);
+    if (!validation.valid) {
+      throw new Error(validation.message || "Invalid coupon code");
     }
 
-    return { valid: true, discount };
+    const couponResult = await client.query(
+      "UPDATE coupons SET used_count = used_count + 1 WHERE code = $1 RETURNING *",
+      [code.toUpperCase()]
+    );
+
+    return { coupon: couponResult.rows[0] as Coupon, validation };
+  },
+
+  // Record which order consumed a redemption so it can be released later
+  async recordRedemption(client: PoolClient, couponId: string, orderId: string, userId: string | null, discount: number) {
+    await client.query(
+      `INSERT INTO coupon_redemptions (coupon_id, order_id, user_id, discount_amount)
+       VALUES ($1, $2, $3, $4)`,
+      [couponId, orderId, userId, discount]
+    );
+  },
+
+  // Release the coupon redemption held by an order (cancellation or refund).
+  // Safe to call more than once: only an unreleased redemption decrements used_count.
+  async releaseRedemption(client: PoolClient, orderId: string) {
+    const result = await client.query(
+      `UPDATE coupon_redemptions SET released_at = CURRENT_TIMESTAMP
+       WHERE order_id = $1 AND released_at IS NULL
+       RETURNING coupon_id`,
+      [orderId]
+    );
+
+    for (const row of result.rows) {
+      await client.query(
+        "UPDATE coupons SET used_count = GREATEST(used_count - 1, 0) WHERE id = $1",
+        [row.coupon_id]
+      );
+    }
+
+    return result.rows.length > 0;
   },
 
   async applyCoupon(code: string) {
@@ -151,6 +491,30 @@ export const couponService = {
       updates.push(`usage_limit = $${paramCount++}`);
       values.push(data.usageLimit);
     }
+    if (data.perUserLimit !== undefined) {
+      updates.push(`per_user_limit = $${paramCount++}`);
+      values.push(data.perUserLimit);
+    }
+    if (data.firstOrderOnly !== undefined) {
+      updates.push(`first_order_only = $${paramCount++}`);
+      values.push(data.firstOrderOnly);
+    }
+    if (data.productIds !== undefined) {
+      updates.push(`product_ids = $${paramCount++}`);
+      values.push(data.productIds.length > 0 ? data.productIds : null);
+    }
+    if (data.categoryIds !== undefined) {
+      updates.push(`category_ids = $${paramCount++}`);
+      values.push(data.categoryIds.length > 0 ? data.categoryIds : null);
+    }
+    if (data.buyQuantity !== undefined) {
+      updates.push(`buy_quantity = $${paramCount++}`);
+      values.push(data.buyQuantity);
+    }
+    if (data.getQuantity !== undefined) {
+      updates.push(`get_quantity = $${paramCount++}`);
+      values.push(data.getQuantity);
+    }
     if (data.validFrom !== undefined) {
       updates.push(`valid_from = $${paramCount++}`);
       values.push(data.validFrom);
@@ -168,6 +532,25 @@ export const couponService = {
       throw new Error("No fields to update");
     }
 
+    // Re-check the discount rules against the merged coupon
+    if (
+      data.discountType !== undefined ||
+      data.discountValue !== undefined ||
+      data.buyQuantity !== undefined ||
+      data.getQuantity !== undefined
+    ) {
+      const existing = await this.getById(id);
+      if (!existing) {
+        throw new Error("Coupon not found");
+      }
+      this.assertDiscountRules(
+        data.discountType ?? existing.discount_type,
+        data.discountValue ?? parseFloat(String(existing.discount_value)),
+        data.buyQuantity ?? existing.buy_quantity,
+        data.getQuantity ?? existing.get_quantity
+      );
+    }
+
     values.push(id);
 
     const result = await query(
@@ -0,0 +1,580 @@
+/**
+ * Inventory Service
+ * 
+ * Stock holds for orders awaiting payment. Placing an order reserves its
+ * units for INVENTORY_HOLD_MINUTES (renewed when payment starts) instead of
+ * taking them from stock straight away:
+ * - Available quantity = on-hand stock minus unexpired active holds
+ * - Payment success (or moving the order to processing) commits the holds,
+ *   which takes the units out of on-hand stock
+ * - Cancelling releases the holds; the sweeper cancels unpaid pending orders
+ *   whose holds have expired (see orderService.expireUnpaidOrders)
+ * - A payment that lands after its holds expired only takes units that are
+ *   still available; if they are gone the order is flagged for a refund
+ * 
+ * Orders placed before reservations existed have no holds; their stock was
+ * taken at checkout.
+ * 
+ * Every change to stock is also written to the append-only inventory_movements
+ * ledger (sales, returns, restocks, manual adjustments, damage) through
+ * adjustStock, so stock_quantity always equals the sum of the movements.
+ * 
+ * A sale that takes a product's stock to its reorder threshold or below raises
+ * a low-stock alert; pending alerts are emailed by the inventory sweeper to
+ * LOW_STOCK_ALERT_EMAILS (or to the active admins when unset).
+ */
+
+import { PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
+import { mailService } from "./mail.service";
+import { z } from "zod";
+
+const HOLD_MINUTES = parseInt(process.env.INVENTORY_HOLD_MINUTES || "15");
+const LOW_STOCK_ALERT_EMAILS = (process.env.LOW_STOCK_ALERT_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim())
+  .filter(Boolean);
+
+/**
+ * Ledger movement types
+ * - sale: units taken from stock for an order
+ * - return: units back in stock from a cancelled or refunded order
+ * - restock: new units received
+ * - adjustment: manual correction (e.g. after a stock count)
+ * - damage: units written off as damaged or lost
+ */
+export const MOVEMENT_TYPES = ["sale", "return", "restock", "adjustment", "damage"] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+/**
+ * Zod validation schema for a manual stock adjustment
+ * `quantity` is the number of units received (restock, return) or written off
+ * (damage); adjustments take a signed change.
+ */
+export const stockAdjustmentSchema = z
+  .object({
+    variantId: z.string().uuid().optional(),
+    type: z.enum(["restock", "return", "adjustment", "damage"]),
+    quantity: z
+      .number()
+      .int()
+      .refine((quantity) => quantity !== 0, { message: "Quantity cannot be zero" }),
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+  })
+  .refine((data) => data.type === "adjustment" || data.quantity > 0, {
+    message: "Quantity must be positive; use an adjustment for a signed change",
+    path: ["quantity"],
+  });
+
+export const listMovementsSchema = z.object({
+  variantId: z.string().uuid().optional(),
+  type: z.enum(MOVEMENT_TYPES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/**
+ * Query parameters for the low-stock report
+ * Sales velocity is measured over the last `velocityDays` days.
+ */
+export const lowStockReportSchema = z.object({
+  velocityDays: z.coerce.number().int().min(1).max(365).default(30),
+  category: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export interface InventoryMovement {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  type: MovementType;
+  quantity_change: number;
+  balance_after: number;
+  reason: string | null;
+  order_id: string | null;
+  actor_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * Why stock changed, recorded with the movement
+ */
+export interface MovementContext {
+  type: MovementType;
+  reason?: string | null;
+  orderId?: string | null;
+  actorId?: string | null;
+}
+
+/**
+ * Reservation lifecycle
+ * - active: holding stock until expires_at
+ * - committed: units taken out of on-hand stock (order paid or being fulfilled)
+ * - released: order cancelled before the units were taken
+ * - expired: hold ran out before payment; the order was cancelled by the sweeper
+ */
+export type ReservationStatus = "active" | "committed" | "released" | "expired";
+
+export interface InventoryReservation {
+  id: string;
+  order_id: string;
+  order_item_id: string | null;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  status: ReservationStatus;
+  expires_at: Date;
+  committed_at: Date | null;
+  released_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * SQL for the quantity held by unexpired active reservations of a product (or variant)
+ * 
+ * @param productId - SQL expression for the product id, e.g. "c.product_id"
+ * @param variantId - SQL expression for the variant id (NULL matches holds on the product itself)
+ */
+export const heldQuantitySql = (productId: string, variantId: string) =>
+  `(SELECT COALESCE(SUM(r.quantity), 0)::int FROM inventory_reservations r
+    WHERE r.status = 'active' AND r.expires_at > CURRENT_TIMESTAMP
+    AND r.product_id = ${productId} AND r.variant_id IS NOT DISTINCT FROM ${variantId})`;
+
+/**
+ * Change the stock of a product, or of one of its variants, inside the caller's transaction
+ * A variant change moves the product's total by the same amount. The change is
+ * recorded in the inventory_movements ledger.
+ * 
+ * @returns The recorded movement, or null for a zero change
+ */
+export const adjustStock = async (
+  client: PoolClient,
+  productId: string,
+  variantId: string | null | undefined,
+  delta: number,
+  movement: MovementContext
+): Promise<InventoryMovement | null> => {
+  if (delta === 0) {
+    return null;
+  }
+
+  const productResult = await client.query(
+    "UPDATE products SET stock_quantity = stock_quantity + $1 WHERE id = $2 RETURNING stock_quantity, reorder_threshold",
+    [delta, productId]
+  );
+  const product = productResult.rows[0];
+  let balance = product?.stock_quantity;
+
+  // Alert once, when a sale crosses the threshold (not on every sale below it)
+  if (
+    product &&
+    movement.type === "sale" &&
+    product.stock_quantity <= product.reorder_threshold &&
+    product.stock_quantity - delta > product.reorder_threshold
+  ) {
+    await client.query(
+      `INSERT INTO low_stock_alerts (product_id, order_id, stock_quantity, reorder_threshold)
+       VALUES ($1, $2, $3, $4)`,
+      [productId, movement.orderId || null, product.stock_quantity, product.reorder_threshold]
+    );
+  }
+
+  if (variantId) {
+    const variantResult = await client.query(
+      "UPDATE product_variants SET stock_quantity = stock_quantity + $1 WHERE id = $2 RETURNING stock_quantity",
+      [delta, variantId]
+    );
+    balance = variantResult.rows[0]?.stock_quantity;
+  }
+
+  const result = await client.query(
+    `INSERT INTO inventory_movements (
+      product_id, variant_id, type, quantity_change, balance_after, reason, order_id, actor_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+    RETURNING *`,
+    [
+      productId,
+      variantId || null,
+      movement.type,
+      delta,
+      balance ?? 0,
+      movement.reason || null,
+      movement.orderId || null,
+      movement.actorId || null,
+    ]
+  );
+  return result.rows[0];
+};
+
+/**
+ * Units of a product (or variant) on hand and not held by unexpired reservations
+ * The caller should hold the product row lock so the answer stays true.
+ */
+const availableQuantity = async (client: PoolClient, productId: string, variantId: string | null) => {
+  const result = await client.query(
+    `SELECT (CASE WHEN $2::uuid IS NULL THEN p.stock_quantity ELSE v.stock_quantity END)
+            - ${heldQuantitySql("p.id", "$2::uuid")} AS available
+     FROM products p
+     LEFT JOIN product_variants v ON v.id = $2
+     WHERE p.id = $1`,
+    [productId, variantId]
+  );
+  return (result.rows[0]?.available ?? 0) as number;
+};
+
+export const inventoryService = {
+  /**
+   * Hold stock for a new order's lines inside the checkout transaction
+   * The caller must already have checked availability with the product rows locked.
+   */
+  async reserveOrder(
+    client: PoolClient,
+    orderId: string,
+    lines: Array<{ orderItemId: string; productId: string; variantId: string | null; quantity: number }>
+  ) {
+    for (const line of lines) {
+      await client.query(
+        `INSERT INTO inventory_reservations (order_id, order_item_id, product_id, variant_id, quantity, expires_at)
+         VALUES ($1, $2, $3, $4, $5, CURRENT_TIMESTAMP + $6::int * INTERVAL '1 minute')`,
+        [orderId, line.orderItemId, line.productId, line.variantId, line.quantity, HOLD_MINUTES]
+      );
+    }
+  },
+
+  /**
+   * Extend an order's holds when payment starts
+   * Holds that already expired are renewed only if the stock is still available.
+   * 
+   * @throws Error if an expired hold can no longer be renewed
+   */
+  async renewHolds(client: PoolClient, orderId: string) {
+    const holdsResult = await client.query(
+      "SELECT * FROM inventory_reservations WHERE order_id = $1 AND status = 'active'",
+      [orderId]
+    );
+    const holds: InventoryReservation[] = holdsResult.rows;
+    if (holds.length === 0) {
+      return;
+    }
+
+    // Lock the products (in id order, like checkout) so availability cannot change underneath
+    await client.query("SELECT id FROM products WHERE id = ANY($1) ORDER BY id FOR UPDATE", [
+      holds.map((hold) => hold.product_id),
+    ]);
+
+    for (const hold of holds.filter((hold) => new Date(hold.expires_at) <= new Date())) {
+      if ((await availableQuantity(client, hold.product_id, hold.variant_id)) < hold.quantity) {
+        throw new Error("Some items in this order are no longer in stock");
+      }
+    }
+
+    await client.query(
+      `UPDATE inventory_reservations SET expires_at = CURRENT_TIMESTAMP + $2::int * INTERVAL '1 minute'
+       WHERE order_id = $1 AND status = 'active'`,
+      [orderId, HOLD_MINUTES]
+    );
+  },
+
+  /**
+   * Turn an order's active holds into committed stock (takes the units out of on-hand stock)
+   * Safe to call more than once.
+   * 
+   * An expired hold no longer reserves its units, so other customers may have bought
+   * them. It is only committed if the stock is still available with the product rows
+   * locked; otherwise it stays uncommitted and is returned as a shortage.
+   * 
+   * @param actorId - Staff member moving the order to processing (none for payments)
+   * @returns Holds that could not be committed because their stock is gone
+   */
+  async commitOrder(client: PoolClient, orderId: string, actorId?: string): Promise<InventoryReservation[]> {
+    const holdsResult = await client.query(
+      `SELECT *, expires_at <= CURRENT_TIMESTAMP AS expired FROM inventory_reservations
+       WHERE order_id = $1 AND status = 'active'
+       FOR UPDATE`,
+      [orderId]
+    );
+    const holds: Array<InventoryReservation & { expired: boolean }> = holdsResult.rows;
+    if (holds.length === 0) {
+      return [];
+    }
+
+    // Lock the products (in id order, like checkout) so availability cannot change underneath
+    await client.query("SELECT id FROM products WHERE id = ANY($1) ORDER BY id FOR UPDATE", [
+      holds.map((hold) => hold.product_id),
+    ]);
+
+    const shortages: InventoryReservation[] = [];
+    for (const { expired, ...hold } of holds) {
+      if (expired && (await availableQuantity(client, hold.product_id, hold.variant_id)) < hold.quantity) {
+        shortages.push(hold);
+        continue;
+      }
+
+      await client.query(
+        "UPDATE inventory_reservations SET status = 'committed', committed_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [hold.id]
+      );
+      await adjustStock(client, hold.product_id, hold.variant_id, -hold.quantity, { type: "sale", orderId, actorId });
+    }
+
+    return shortages;
+  },
+
+  /**
+   * Release an order's active holds
+   * 
+   * @param status - "released" for cancellations, "expired" for the sweeper
+   * @returns Whether the order's units had been taken from stock (committed
+   * holds, or an order from before reservations) and so need restocking
+   */
+  async releaseOrder(client: PoolClient, orderId: string, status: "released" | "expired" = "released") {
+    const existing = await client.query(
+      "SELECT status, COUNT(*)::int AS count FROM inventory_reservations WHERE order_id = $1 GROUP BY status",
+      [orderId]
+    );
+
+    await client.query(
+      `UPDATE inventory_reservations SET status = $2, released_at = CURRENT_TIMESTAMP
+       WHERE order_id = $1 AND status = 'active'`,
+      [orderId, status]
+    );
+
+    return existing.rows.length === 0 || existing.rows.some((row) => row.status === "committed");
+  },
+
+  /**
+   * Quantity held for a product and for each of its variants
+   * 
+   * @returns Map of variant id (or "" for the product itself) to held quantity
+   */
+  async getHeldQuantities(productId: string) {
+    const result = await query(
+      `SELECT variant_id, SUM(quantity)::int AS quantity FROM inventory_reservations
+       WHERE product_id = $1 AND status = 'active' AND expires_at > CURRENT_TIMESTAMP
+       GROUP BY variant_id`,
+      [productId]
+    );
+    return new Map<string, number>(result.rows.map((row) => [row.variant_id || "", row.quantity]));
+  },
+
+  /**
+   * Quantity held for one product or variant
+   */
+  async getHeldQuantity(productId: string, variantId?: string | null) {
+    const result = await query(`SELECT ${heldQuantitySql("$1::uuid", "$2::uuid")} AS held`, [
+      productId,
+      variantId || null,
+    ]);
+    return result.rows[0].held as number;
+  },
+
+  /**
+   * Record a manual stock change (restock, return, adjustment or damage)
+   * Products with variants are adjusted per variant.
+   * 
+   * @returns The recorded movement
+   * @throws Error if the product or variant is not found, or the change would
+   * take stock below zero or below the units held for pending orders
+   */
+  async adjust(productId: string, data: z.infer<typeof stockAdjustmentSchema>, actorId?: string) {
+    return withTransaction(async (client) => {
+      const productResult = await client.query("SELECT stock_quantity FROM products WHERE id = $1 FOR UPDATE", [
+        productId,
+      ]);
+      if (productResult.rows.length === 0) {
+        throw new Error("Product not found");
+      }
+
+      let balance: number = productResult.rows[0].stock_quantity;
+      if (data.variantId) {
+        const variantResult = await client.query(
+          "SELECT stock_quantity FROM product_variants WHERE id = $1 AND product_id = $2 FOR UPDATE",
+          [data.variantId, productId]
+        );
+        if (variantResult.rows.length === 0) {
+          throw new Error("Variant not found");
+        }
+        balance = variantResult.rows[0].stock_quantity;
+      } else {
+        const variants = await client.query("SELECT 1 FROM product_variants WHERE product_id = $1 LIMIT 1", [
+          productId,
+        ]);
+        if (variants.rows.length > 0) {
+          throw new Error("variantId is required for products with variants");
+        }
+      }
+
+      const delta = data.type === "damage" ? -data.quantity : data.quantity;
+      if (balance + delta < 0) {
+        throw new Error(`Insufficient stock: only ${balance} in stock`);
+      }
+      if (delta < 0) {
+        const heldResult = await client.query(`SELECT ${heldQuantitySql("$1::uuid", "$2::uuid")} AS held`, [
+          productId,
+          data.variantId || null,
+        ]);
+        if (balance + delta < heldResult.rows[0].held) {
+          throw new Error(`Cannot remove stock held for pending orders (${heldResult.rows[0].held} held)`);
+        }
+      }
+
+      return adjustStock(client, productId, data.variantId, delta, {
+        type: data.type,
+        reason: data.reason,
+        actorId,
+      });
+    });
+  },
+
+  /**
+   * Stock movement history of a product, newest first
+   * 
+   * @returns `{ items, total, limit, offset }`; items include the actor's email and the variant SKU
+   */
+  async getMovements(productId: string, filters: z.infer<typeof listMovementsSchema>) {
+    const conditions = ["m.product_id = $1"];
+    const values: string[] = [productId];
+    let paramCount = 2;
+
+    if (filters.variantId) {
+      conditions.push(`m.variant_id = $${paramCount++}`);
+      values.push(filters.variantId);
+    }
+    if (filters.type) {
+      conditions.push(`m.type = $${paramCount++}`);
+      values.push(filters.type);
+    }
+
+    const whereClause = conditions.join(" AND ");
+    const [itemsResult, countResult] = await Promise.all([
+      query(
+        `SELECT m.*, v.sku AS variant_sku, u.email AS actor_email
+         FROM inventory_movements m
+         LEFT JOIN product_variants v ON v.id = m.variant_id
+         LEFT JOIN users u ON u.id = m.actor_id
+         WHERE ${whereClause}
+         ORDER BY m.created_at DESC, m.id
+         LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+        [...values, filters.limit, filters.offset]
+      ),
+      query(`SELECT COUNT(*)::int AS total FROM inventory_movements m WHERE ${whereClause}`, values),
+    ]);
+
+    return {
+      items: itemsResult.rows,
+      total: countResult.rows[0].total,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  },
+
+  /**
+   * Active products at or below their reorder threshold, most urgent first
+   * 
+   * Sales velocity is the units sold per day over the last `velocityDays` days
+   * (sale movements net of returns); days of cover is the available stock
+   * (on hand minus held) divided by that velocity, or null without recent sales.
+   */
+  async getLowStockReport(filters: z.infer<typeof lowStockReportSchema>) {
+    const conditions = ["p.is_active = true", "p.deleted_at IS NULL", "p.stock_quantity <= p.reorder_threshold"];
+    const values: string[] = [];
+    let paramCount = 1;
+
+    if (filters.category) {
+      conditions.push(`p.category = $${paramCount++}`);
+      values.push(filters.category);
+    }
+
+    const whereClause = conditions.join(" AND ");
+    const days = `$${paramCount}`;
+    const [itemsResult, countResult] = await Promise.all([
+      query(
+        `SELECT p.id, p.name, p.sku, p.category, p.stock_quantity, p.reorder_threshold, p.reorder_quantity,
+                held.quantity AS held_quantity, p.stock_quantity - held.quantity AS available_quantity,
+                sales.units AS units_sold,
+                ROUND(sales.units::numeric / ${days}::int, 2)::float AS daily_velocity,
+                CASE WHEN sales.units > 0
+                  THEN ROUND(GREATEST(p.stock_quantity - held.quantity, 0) * ${days}::int / sales.units::numeric, 1)::float
+                END AS days_of_cover
+         FROM products p
+         CROSS JOIN LATERAL (
+           SELECT COALESCE(SUM(r.quantity), 0)::int AS quantity FROM inventory_reservations r
+           WHERE r.product_id = p.id AND r.status = 'active' AND r.expires_at > CURRENT_TIMESTAMP
+         ) held
+         CROSS JOIN LATERAL (
+           SELECT GREATEST(COALESCE(-SUM(m.quantity_change), 0), 0)::int AS units FROM inventory_movements m
+           WHERE m.product_id = p.id AND m.type IN ('sale', 'return') AND m.order_id IS NOT NULL
+           AND m.created_at > CURRENT_TIMESTAMP - ${days}::int * INTERVAL '1 day'
+         ) sales
+         WHERE ${whereClause}
+         ORDER BY days_of_cover ASC NULLS LAST, p.stock_quantity ASC, p.name
+         LIMIT $${paramCount + 1} OFFSET $${paramCount + 2}`,
+        [...values, filters.velocityDays, filters.limit, filters.offset]
+      ),
+      query(`SELECT COUNT(*)::int AS total FROM products p WHERE ${whereClause}`, values),
+    ]);
+
+    return {
+      items: itemsResult.rows,
+      total: countResult.rows[0].total,
+      velocityDays: filters.velocityDays,
+      limit: filters.limit,
+      offset: filters.offset,
+    };
+  },
+
+  /**
+   * Recent low-stock alerts, newest first
+   */
+  async getLowStockAlerts(limit = 50) {
+    const result = await query(
+      `SELECT a.*, p.name AS product_name, p.sku AS product_sku
+       FROM low_stock_alerts a
+       JOIN products p ON p.id = a.product_id
+       ORDER BY a.created_at DESC
+       LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Email pending low-stock alerts in one message and mark them notified
+   * Called by the inventory sweeper; alerts stay pending if there is no recipient.
+   * 
+   * @returns Number of alerts sent
+   */
+  async sendLowStockAlerts() {
+    return withTransaction(async (client) => {
+      // SKIP LOCKED lets a second instance's sweeper pass over alerts being sent here
+      const pending = await client.query(
+        `SELECT a.id, a.stock_quantity, a.reorder_threshold, p.name, p.sku, p.reorder_quantity
+         FROM low_stock_alerts a
+         JOIN products p ON p.id = a.product_id
+         WHERE a.notified_at IS NULL
+         ORDER BY a.created_at
+         FOR UPDATE OF a SKIP LOCKED`
+      );
+      if (pending.rows.length === 0) {
+        return 0;
+      }
+
+      let recipients = LOW_STOCK_ALERT_EMAILS;
+      if (recipients.length === 0) {
+        const admins = await client.query("SELECT email FROM users WHERE role = 'admin' AND is_active = true");
+        recipients = admins.rows.map((row) => row.email);
+      }
+      if (recipients.length === 0) {
+        return 0;
+      }
+
+      await mailService.sendLowStockAlert(recipients, pending.rows);
+      await client.query("UPDATE low_stock_alerts SET notified_at = CURRENT_TIMESTAMP WHERE id = ANY($1)", [
+        pending.rows.map((row) => row.id),
+      ]);
+      return pending.rows.length;
+    });
+  },
+};
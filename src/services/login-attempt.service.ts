@@ -0,0 +1,239 @@
+/**
+ * Login Attempt Service
+ * 
+ * Brute-force protection for login, independent of the HTTP rate limiters
+ * (which are disabled in development). Failed logins are written to the
+ * login_attempts audit table and counted per account and per IP address:
+ * - After LOGIN_DELAY_AFTER_FAILURES failures on an account (or
+ *   LOGIN_IP_DELAY_AFTER_FAILURES from one IP), each further attempt must wait
+ *   an exponentially growing delay (capped at LOGIN_MAX_DELAY_SECONDS)
+ * - After LOGIN_LOCKOUT_THRESHOLD failures an account is locked for
+ *   LOGIN_LOCKOUT_MINUTES, or until an admin unlocks it
+ * - An IP address with LOGIN_IP_MAX_FAILURES failures within
+ *   LOGIN_IP_WINDOW_MINUTES is blocked until older failures leave the window
+ */
+
+import { query } from "../config/database";
+
+const DELAY_AFTER_FAILURES = parseInt(process.env.LOGIN_DELAY_AFTER_FAILURES || "3");
+const MAX_DELAY_SECONDS = parseInt(process.env.LOGIN_MAX_DELAY_SECONDS || "60");
+const LOCKOUT_THRESHOLD = parseInt(process.env.LOGIN_LOCKOUT_THRESHOLD || "10");
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || "15");
+const IP_DELAY_AFTER_FAILURES = parseInt(process.env.LOGIN_IP_DELAY_AFTER_FAILURES || "10");
+const IP_MAX_FAILURES = parseInt(process.env.LOGIN_IP_MAX_FAILURES || "50");
+const IP_WINDOW_MINUTES = parseInt(process.env.LOGIN_IP_WINDOW_MINUTES || "15");
+
+/**
+ * Thrown when a login attempt is refused before the password is checked
+ * Routes answer with 429 and a Retry-After header.
+ */
+export class LoginThrottledError extends Error {
+  constructor(message: string, public readonly retryAfterSeconds: number) {
+    super(message);
+    this.name = "LoginThrottledError";
+  }
+}
+
+/**
+ * Reasons recorded for failed logins
+ * - invalid_credentials: unknown email or wrong password
+ * - invalid_two_factor: wrong 2FA or recovery code
+ * - inactive: deactivated account
+ * - locked / throttled: refused before the password was checked (not counted as failures)
+ */
+export type LoginFailureReason = "invalid_credentials" | "invalid_two_factor" | "inactive" | "locked" | "throttled";
+
+export interface LoginAttempt {
+  id: string;
+  email: string;
+  user_id: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  succeeded: boolean;
+  failure_reason: LoginFailureReason | null;
+  created_at: Date;
+}
+
+interface AttemptContext {
+  email: string;
+  userId?: string | null;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Seconds to wait after the latest failure: 1s, 2s, 4s, ... once `failures` reaches `delayAfter`
+ */
+const progressiveDelaySeconds = (failures: number, delayAfter: number) => {
+  if (failures < delayAfter) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - delayAfter), MAX_DELAY_SECONDS);
+};
+
+/**
+ * Seconds left until `lastFailureAt + delaySeconds`, or 0 if already passed
+ */
+const secondsRemaining = (lastFailureAt: Date | null, delaySeconds: number) => {
+  if (!lastFailureAt || delaySeconds === 0) {
+    return 0;
+  }
+  const waitUntil = new Date(lastFailureAt).getTime() + delaySeconds * 1000;
+  return Math.max(0, Math.ceil((waitUntil - Date.now()) / 1000));
+};
+
+const insertAttempt = async (context: AttemptContext, succeeded: boolean, reason: LoginFailureReason | null) => {
+  await query(
+    `INSERT INTO login_attempts (email, user_id, ip_address, user_agent, succeeded, failure_reason)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [
+      context.email.toLowerCase(),
+      context.userId || null,
+      context.ipAddress || null,
+      context.userAgent || null,
+      succeeded,
+      reason,
+    ]
+  );
+};
+
+export const loginAttemptService = {
+  /**
+   * Refuse the attempt if the IP address is blocked or still in its delay
+   * 
+   * @throws LoginThrottledError
+   */
+  async assertIpAllowed(context: AttemptContext) {
+    if (!context.ipAddress) {
+      return;
+    }
+
+    const result = await query(
+      `SELECT COUNT(*)::int AS failures, MAX(created_at) AS last_failure_at
+       FROM login_attempts
+       WHERE ip_address = $1 AND succeeded = false AND failure_reason IN ('invalid_credentials', 'invalid_two_factor', 'inactive')
+       AND created_at > CURRENT_TIMESTAMP - $2::int * INTERVAL '1 minute'`,
+      [context.ipAddress, IP_WINDOW_MINUTES]
+    );
+    const { failures, last_failure_at } = result.rows[0];
+
+    if (failures >= IP_MAX_FAILURES) {
+      await insertAttempt(context, false, "throttled");
+      throw new LoginThrottledError(
+        "Too many failed login attempts from this IP. Please try again later",
+        IP_WINDOW_MINUTES * 60
+      );
+    }
+
+    const wait = secondsRemaining(last_failure_at, progressiveDelaySeconds(failures, IP_DELAY_AFTER_FAILURES));
+    if (wait > 0) {
+      await insertAttempt(context, false, "throttled");
+      throw new LoginThrottledError(`Too many failed login attempts. Try again in ${wait} seconds`, wait);
+    }
+  },
+
+  /**
+   * Refuse the attempt if the account is locked or still in its delay
+   * 
+   * @param user - User row with failed_login_count, last_failed_login_at and locked_until
+   * @throws LoginThrottledError
+   */
+  async assertAccountAllowed(
+    context: AttemptContext,
+    user: { failed_login_count: number; last_failed_login_at: Date | null; locked_until: Date | null }
+  ) {
+    if (user.locked_until && new Date(user.locked_until) > new Date()) {
+      await insertAttempt(context, false, "locked");
+      const wait = Math.ceil((new Date(user.locked_until).getTime() - Date.now()) / 1000);
+      throw new LoginThrottledError("Account is temporarily locked due to too many failed login attempts", wait);
+    }
+
+    const wait = secondsRemaining(
+      user.last_failed_login_at,
+      progressiveDelaySeconds(user.failed_login_count, DELAY_AFTER_FAILURES)
+    );
+    if (wait > 0) {
+      await insertAttempt(context, false, "throttled");
+      throw new LoginThrottledError(`Too many failed login attempts. Try again in ${wait} seconds`, wait);
+    }
+  },
+
+  /**
+   * Record a failed login and lock the account once it reaches the threshold
+   */
+  async recordFailure(context: AttemptContext, reason: LoginFailureReason) {
+    await insertAttempt(context, false, reason);
+
+    if (context.userId) {
+      // Locking restarts the count so delays begin again after the lock expires
+      await query(
+        `UPDATE users
+         SET failed_login_count = CASE WHEN failed_login_count + 1 >= $2 THEN 0 ELSE failed_login_count + 1 END,
+             last_failed_login_at = CURRENT_TIMESTAMP,
+             locked_until = CASE
+               WHEN failed_login_count + 1 >= $2 THEN CURRENT_TIMESTAMP + $3::int * INTERVAL '1 minute'
+               ELSE locked_until
+             END
+         WHERE id = $1`,
+        [context.userId, LOCKOUT_THRESHOLD, LOCKOUT_MINUTES]
+      );
+    }
+  },
+
+  /**
+   * Number of failures of one kind recorded for an account since a point in time
+   * (e.g. wrong codes entered against one login challenge)
+   */
+  async countFailuresSince(userId: string, reason: LoginFailureReason, since: Date) {
+    const result = await query(
+      `SELECT COUNT(*)::int AS failures FROM login_attempts
+       WHERE user_id = $1 AND succeeded = false AND failure_reason = $2 AND created_at >= $3`,
+      [userId, reason, since]
+    );
+    return result.rows[0].failures as number;
+  },
+
+  /**
+   * Record a successful login and reset the account's failure count
+   */
+  async recordSuccess(context: AttemptContext) {
+    await insertAttempt(context, true, null);
+    await query(
+      "UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL WHERE id = $1",
+      [context.userId]
+    );
+  },
+
+  /**
+   * Unlock an account and clear its failure count (admin)
+   * 
+   * @throws Error if user not found
+   */
+  async unlock(userId: string) {
+    const result = await query(
+      `UPDATE users SET failed_login_count = 0, last_failed_login_at = NULL, locked_until = NULL
+       WHERE id = $1
+       RETURNING id, email`,
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+    return { message: "Account unlocked successfully", user: result.rows[0] };
+  },
+
+  /**
+   * Recent login attempts for an account, newest first (admin)
+   */
+  async getByUserId(userId: string, limit = 50): Promise<LoginAttempt[]> {
+    const result = await query(
+      `SELECT la.* FROM login_attempts la
+       JOIN users u ON u.id = $1
+       WHERE la.user_id = u.id OR la.email = LOWER(u.email)
+       ORDER BY la.created_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    return result.rows;
+  },
+};
@@ -0,0 +1,20 @@
+/**
+ * Console Mail Transport
+ * 
+ * Prints messages to the server log instead of sending them.
+ * Default transport for local development.
+ */
+
+import { MailMessage, MailTransport } from "./types";
+
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log("📧 Mail (console transport)");
+    console.log(`   From: ${message.from}`);
+    console.log(`   To: ${message.to}`);
+    console.log(`   Subject: ${message.subject}`);
+    console.log(message.text);
+  }
+}
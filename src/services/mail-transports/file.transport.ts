@@ -0,0 +1,27 @@
+/**
+ * File Mail Transport
+ * 
+ * Writes each message as a JSON file into a directory, one file per message,
+ * so local tests can read the links out of sent emails.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { MailMessage, MailTransport } from "./types";
+
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Timestamp prefix keeps files in send order
+    const fileName = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
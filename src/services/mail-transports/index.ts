@@ -0,0 +1,49 @@
+/**
+ * Mail Transport Registry
+ * 
+ * Selects the transport named by MAIL_TRANSPORT: console (default) logs messages,
+ * file writes them to MAIL_FILE_DIR. Neither delivers mail, so both are refused in
+ * production unless MAIL_ALLOW_DEV_TRANSPORT=true. The transport is created on first use.
+ */
+
+import dotenv from "dotenv";
+import { MailTransport } from "./types";
+import { ConsoleMailTransport } from "./console.transport";
+import { FileMailTransport } from "./file.transport";
+
+dotenv.config();
+
+export * from "./types";
+
+const transportFactories: Record<string, () => MailTransport> = {
+  console: () => new ConsoleMailTransport(),
+  file: () => new FileMailTransport(process.env.MAIL_FILE_DIR || "mail-outbox"),
+};
+
+// console and file expose message bodies (reset and verification links included) in logs
+// or on disk without delivering them, so production has to opt in explicitly
+const DEV_TRANSPORTS = ["console", "file"];
+const devTransportsAllowed =
+  process.env.NODE_ENV !== "production" || process.env.MAIL_ALLOW_DEV_TRANSPORT === "true";
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport
+ * @throws Error if MAIL_TRANSPORT names an unknown transport, or a development
+ * transport in production without MAIL_ALLOW_DEV_TRANSPORT=true
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    const factory = transportFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown mail transport: ${name}`);
+    }
+    if (DEV_TRANSPORTS.includes(name) && !devTransportsAllowed) {
+      throw new Error(`Mail transport ${name} is disabled in production (set MAIL_ALLOW_DEV_TRANSPORT=true to allow it)`);
+    }
+    transport = factory();
+  }
+  return transport;
+};
@@ -0,0 +1,19 @@
+/**
+ * Mail Transport Types
+ * 
+ * A transport only delivers an already rendered message. Templates and
+ * addressing live in the mail service, so switching from the local transports
+ * to a real provider does not touch the auth flows that send mail.
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
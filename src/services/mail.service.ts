@@ -0,0 +1,93 @@
+/**
+ * Mail Service
+ * 
+ * Renders transactional emails and hands them to the configured mail transport.
+ * Links point at the frontend (APP_URL), which submits the token back to the API.
+ */
+
+import { getMailTransport, MailMessage } from "./mail-transports";
+
+const MAIL_FROM = process.env.MAIL_FROM || "2Square <no-reply@2square.local>";
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+
+export const mailService = {
+  async send(message: MailMessage) {
+    await getMailTransport().send({ ...message, from: MAIL_FROM });
+  },
+
+  async sendPasswordReset(to: string, token: string, expiresInMinutes: number) {
+    const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.send({
+      to,
+      subject: "Reset your password",
+      text:
+        `We received a request to reset your password.\n\n` +
+        `Open this link to choose a new password:\n${link}\n\n` +
+        `The link expires in ${expiresInMinutes} minutes and can only be used once. ` +
+        `If you did not ask for a reset, you can ignore this email.`,
+    });
+  },
+
+  async sendEmailVerification(to: string, token: string, expiresInHours: number) {
+    const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+    await this.send({
+      to,
+      subject: "Confirm your email address",
+      text:
+        `Please confirm your email address by opening this link:\n${link}\n\n` +
+        `The link expires in ${expiresInHours} hours.`,
+    });
+  },
+
+  async sendEmailChangeConfirmation(to: string, token: string, expiresInHours: number) {
+    const link = `${APP_URL}/confirm-email-change?token=${encodeURIComponent(token)}`;
+    await this.send({
+      to,
+      subject: "Confirm your new email address",
+      text:
+        `Open this link to make this the email address of your account:\n${link}\n\n` +
+        `The link expires in ${expiresInHours} hours.`,
+    });
+  },
+
+  async sendEmailChangeNotice(to: string, newEmail: string) {
+    await this.send({
+      to,
+      subject: "Email change requested",
+      text:
+        `Someone asked to change the email address of your account to ${newEmail}.\n\n` +
+        `Nothing changes until the new address is confirmed. If this was not you, change your password.`,
+    });
+  },
+
+  async sendPasswordChangedNotice(to: string) {
+    await this.send({
+      to,
+      subject: "Your password was changed",
+      text:
+        `The password of your account was just changed and all other sessions were logged out.\n\n` +
+        `If this was not you, reset your password immediately.`,
+    });
+  },
+
+  async sendLowStockAlert(
+    recipients: string[],
+    alerts: Array<{ name: string; sku: string | null; stock_quantity: number; reorder_threshold: number; reorder_quantity: number | null }>
+  ) {
+    const lines = alerts.map(
+      (alert) =>
+        `- ${alert.name}${alert.sku ? ` (${alert.sku})` : ""}: ${alert.stock_quantity} left, ` +
+        `reorder threshold ${alert.reorder_threshold}` +
+        (alert.reorder_quantity ? `, reorder ${alert.reorder_quantity}` : "")
+    );
+    for (const to of recipients) {
+      await this.send({
+        to,
+        subject: alerts.length === 1 ? `Low stock: ${alerts[0].name}` : `Low stock: ${alerts.length} products`,
+        text:
+          `Recent orders took these products to their reorder threshold:\n\n${lines.join("\n")}\n\n` +
+          `See the low-stock report for sales velocity and days of cover:\n${APP_URL}/admin/inventory/low-stock`,
+      });
+    }
+  },
+};
@@ -1,8 +1,26 @@
-import { query } from "../config/database";
+import { PoolClient } from "pg";
+import jwt from "jsonwebtoken";
+import { query, withTransaction } from "../config/database";
 import { z } from "zod";
+import { couponService, Coupon } from "./coupon.service";
+import { paymentService } from "./payment.service";
+import { CartOwner, cartOwnerColumn, LINE_PRICE, LINE_STOCK, LINE_ACTIVE } from "./cart.service";
+import { inventoryService, adjustStock } from "./inventory.service";
+import { CASH_ON_DELIVERY_METHODS } from "./payment-providers";
+
+// When enabled, customers must confirm their email address before placing an order
+const REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT = process.env.REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT === "true";
+
+// Guests get a signed order token (sent back in this header) to view and pay for their order
+export const ORDER_TOKEN_HEADER = "x-order-token";
+const ORDER_TOKEN_SECRET = process.env.JWT_SECRET || "your-secret-key-change-in-production";
+const GUEST_ORDER_TOKEN_EXPIRES_IN = "30d";
 
 export const createOrderSchema = z.object({
-  userId: z.string().uuid("Invalid user ID"),
+  // Exactly one of userId (signed-in checkout) or guestCartId (guest checkout)
+  userId: z.string().uuid("Invalid user ID").optional(),
+  guestCartId: z.string().uuid("Invalid cart").optional(),
+  email: z.string().email("Invalid email address").optional(),
   shippingAddress: z.object({
     street: z.string(),
     city: z.string(),
@@ -20,17 +38,32 @@ export const createOrderSchema = z.object({
     })
     .optional(),
   paymentMethod: z.string().default("card"),
+  couponCode: z.string().min(1).optional(),
+}).refine((data) => !!data.userId || (!!data.guestCartId && !!data.email), {
+  message: "Email is required for guest checkout",
+  path: ["email"],
 });
 
 export interface Order {
   id: string;
-  user_id: string;
+  user_id: string | null;
+  guest_email: string | null; // Contact email for guest checkouts
+  subtotal_amount: number | null;
+  discount_amount: number;
   total_amount: number;
+  coupon_id: string | null;
+  coupon_code: string | null;
   status: string;
   shipping_address: any;
   billing_address: any;
   payment_status: string;
   payment_method: string;
+  processing_at: Date | null;
+  shipped_at: Date | null;
+  delivered_at: Date | null;
+  cancelled_at: Date | null;
+  refund_required_reason: string | null; // Captured money that has to be refunded, until a refund is issued
+  refund_required_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -39,8 +72,12 @@ export interface OrderItem {
   id: string;
   order_id: string;
   product_id: string;
+  variant_id: string | null;
+  sku: string | null;
+  variant_options: Record<string, string> | null;
   quantity: number;
   price: number;
+  discount_amount: number;
   created_at: Date;
   product?: {
     id: string;
@@ -49,80 +86,294 @@ export interface OrderItem {
   };
 }
 
+export interface OrderStatusHistory {
+  id: string;
+  order_id: string;
+  from_status: string | null;
+  to_status: string;
+  actor_id: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+export const ORDER_STATUSES = ["pending", "processing", "shipped", "delivered", "cancelled"];
+
+/**
+ * Allowed order status transitions
+ * delivered and cancelled are terminal.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ["processing", "cancelled"],
+  processing: ["shipped", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+// Statuses in which a customer may still cancel their own order
+export const CUSTOMER_CANCELLABLE_STATUSES = ["pending", "processing"];
+
+// Statuses only reached through shipments (shipmentService), never set directly
+export const SHIPMENT_STATUSES = ["shipped", "delivered"];
+
+// Column stamped when an order enters a status
+const STATUS_TIMESTAMP_COLUMNS: Record<string, string> = {
+  processing: "processing_at",
+  shipped: "shipped_at",
+  delivered: "delivered_at",
+  cancelled: "cancelled_at",
+};
+
+/**
+ * Append an entry to the order's status timeline
+ */
+const recordStatusChange = async (
+  client: PoolClient,
+  orderId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  actorId?: string,
+  note?: string
+) => {
+  await client.query(
+    `INSERT INTO order_status_history (order_id, from_status, to_status, actor_id, note)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [orderId, fromStatus, toStatus, actorId || null, note || null]
+  );
+};
+
+/**
+ * Return the order's units to product stock
+ * Units still only held for the order are released instead (only committed
+ * holds were taken from stock); units already restocked by an earlier line
+ * refund are not added twice.
+ */
+const restockOrderItems = async (client: PoolClient, orderId: string, actorId?: string) => {
+  const stockTaken = await inventoryService.releaseOrder(client, orderId);
+  if (!stockTaken) {
+    return;
+  }
+
+  // Orders from before reservations took every unit at checkout
+  const itemsResult = await client.query(
+    `SELECT oi.id, oi.product_id, oi.variant_id,
+       CASE WHEN EXISTS (SELECT 1 FROM inventory_reservations r WHERE r.order_id = oi.order_id)
+         THEN (SELECT COALESCE(SUM(r.quantity), 0)::int FROM inventory_reservations r
+               WHERE r.order_item_id = oi.id AND r.status = 'committed')
+         ELSE oi.quantity
+       END AS quantity
+     FROM order_items oi
+     WHERE oi.order_id = $1`,
+    [orderId]
+  );
+  const refundsResult = await client.query(
+    "SELECT line_items FROM refunds WHERE order_id = $1 AND restocked = true AND line_items IS NOT NULL",
+    [orderId]
+  );
+
+  const restocked = new Map<string, number>();
+  for (const row of refundsResult.rows) {
+    for (const line of row.line_items as Array<{ orderItemId: string; quantity: number }>) {
+      restocked.set(line.orderItemId, (restocked.get(line.orderItemId) || 0) + line.quantity);
+    }
+  }
+
+  for (const item of itemsResult.rows) {
+    const quantity = item.quantity - (restocked.get(item.id) || 0);
+    if (quantity > 0) {
+      await adjustStock(client, item.product_id, item.variant_id, quantity, {
+        type: "return",
+        reason: "Order cancelled",
+        orderId,
+        actorId,
+      });
+    }
+  }
+};
+
 export const orderService = {
   // Create order from cart
+  // Runs as a single transaction: product rows are locked with FOR UPDATE so
+  // concurrent checkouts for the same product are serialized, and available
+  // stock is re-validated under the lock before anything is written.
+  // The units are held for the order until it is paid (see inventoryService);
+  // cash on delivery orders take them from stock straight away.
   async createOrderFromCart(data: z.infer<typeof createOrderSchema>) {
-    const { userId, shippingAddress, billingAddress, paymentMethod } = data;
-
-    // Get cart items
-    const cartResult = await query(
-      `SELECT c.*, p.price, p.stock_quantity, p.name
-       FROM cart c
-       JOIN products p ON c.product_id = p.id
-       WHERE c.user_id = $1`,
-      [userId]
-    );
+    const { userId, guestCartId, email, shippingAddress, billingAddress, paymentMethod, couponCode } = data;
+    const owner: CartOwner = userId ? { userId } : { guestCartId: guestCartId as string };
+    const cartOwner = cartOwnerColumn(owner);
 
-    if (cartResult.rows.length === 0) {
-      throw new Error("Cart is empty");
+    if (REQUIRE_VERIFIED_EMAIL_FOR_CHECKOUT && userId) {
+      const userResult = await query("SELECT email_verified_at FROM users WHERE id = $1", [userId]);
+      if (!userResult.rows[0]?.email_verified_at) {
+        throw new Error("Please verify your email address before placing an order");
+      }
     }
 
-    // Calculate total
-    let totalAmount = 0;
-    const orderItems: Array<{ productId: string; quantity: number; price: number }> = [];
+    return withTransaction(async (client) => {
+      // Get cart items and lock the referenced product rows
+      // (ordered by product id so concurrent checkouts lock in the same order).
+      // Variant stock is only changed together with its product row, so the
+      // product lock also serializes checkouts of the same variant.
+      const cartResult = await client.query(
+        `SELECT c.*, ${LINE_PRICE} AS price, ${LINE_STOCK} AS stock_quantity, ${LINE_ACTIVE} AS is_active,
+                p.name, p.category, COALESCE(v.sku, p.sku) AS sku, v.options AS variant_options
+         FROM cart c
+         JOIN products p ON c.product_id = p.id
+         LEFT JOIN product_variants v ON c.variant_id = v.id
+         WHERE c.${cartOwner.column} = $1
+         ORDER BY p.id
+         FOR UPDATE OF p`,
+        [cartOwner.value]
+      );
 
-    for (const item of cartResult.rows) {
-      if (item.stock_quantity < item.quantity) {
-        throw new Error(`Insufficient stock for ${item.name}`);
+      if (cartResult.rows.length === 0) {
+        throw new Error("Cart is empty");
       }
 
-      const itemTotal = parseFloat(item.price) * item.quantity;
-      totalAmount += itemTotal;
+      // Calculate subtotal
+      let subtotalAmount = 0;
+      const orderItems: Array<{
+        productId: string;
+        variantId: string | null;
+        sku: string | null;
+        variantOptions: Record<string, string> | null;
+        category: string | null;
+        quantity: number;
+        price: number;
+        discount: number;
+      }> = [];
 
-      orderItems.push({
-        productId: item.product_id,
-        quantity: item.quantity,
-        price: parseFloat(item.price),
-      });
-    }
+      for (const item of cartResult.rows) {
+        if (!item.is_active) {
+          throw new Error(`${item.name} is no longer available`);
+        }
 
-    // Create order
-    const orderResult = await query(
-      `INSERT INTO orders (
-        user_id, total_amount, shipping_address, billing_address, payment_method, status, payment_status
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      RETURNING *`,
-      [
-        userId,
-        totalAmount,
-        JSON.stringify(shippingAddress),
-        JSON.stringify(billingAddress || shippingAddress),
-        paymentMethod,
-        "pending",
-        "pending",
-      ]
-    );
+        if (item.stock_quantity < item.quantity) {
+          throw new Error(`Insufficient stock for ${item.name}`);
+        }
+
+        const itemTotal = parseFloat(item.price) * item.quantity;
+        subtotalAmount += itemTotal;
+
+        orderItems.push({
+          productId: item.product_id,
+          variantId: item.variant_id,
+          sku: item.sku,
+          variantOptions: item.variant_options,
+          category: item.category,
+          quantity: item.quantity,
+          price: parseFloat(item.price),
+          discount: 0,
+        });
+      }
+
+      subtotalAmount = Math.round(subtotalAmount * 100) / 100;
+
+      // Redeem coupon against the cart lines (locks the coupon row until commit)
+      let coupon: Coupon | null = null;
+      let discountAmount = 0;
+      if (couponCode) {
+        const redemption = await couponService.redeem(client, couponCode, { userId, lines: orderItems });
+        coupon = redemption.coupon;
+        discountAmount = redemption.validation.discount;
+        (redemption.validation.lines || []).forEach((line, index) => {
+          orderItems[index].discount = line.discount;
+        });
+      }
 
-    const order = orderResult.rows[0];
+      const totalAmount = Math.round((subtotalAmount - discountAmount) * 100) / 100;
 
-    // Create order items
-    for (const item of orderItems) {
-      await query(
-        "INSERT INTO order_items (order_id, product_id, quantity, price) VALUES ($1, $2, $3, $4)",
-        [order.id, item.productId, item.quantity, item.price]
+      // Create order with the pricing snapshot
+      const orderResult = await client.query(
+        `INSERT INTO orders (
+          user_id, guest_email, subtotal_amount, discount_amount, total_amount, coupon_id, coupon_code,
+          shipping_address, billing_address, payment_method, status, payment_status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+        RETURNING *`,
+        [
+          userId || null,
+          userId ? null : email,
+          subtotalAmount,
+          discountAmount,
+          totalAmount,
+          coupon ? coupon.id : null,
+          coupon ? coupon.code : null,
+          JSON.stringify(shippingAddress),
+          JSON.stringify(billingAddress || shippingAddress),
+          paymentMethod,
+          "pending",
+          "pending",
+        ]
       );
 
-      // Update product stock
-      await query("UPDATE products SET stock_quantity = stock_quantity - $1 WHERE id = $2", [
-        item.quantity,
-        item.productId,
-      ]);
-    }
+      const order = orderResult.rows[0];
+
+      await recordStatusChange(client, order.id, null, "pending", userId, "Order placed");
+
+      if (coupon) {
+        await couponService.recordRedemption(client, coupon.id, order.id, userId || null, discountAmount);
+      }
+
+      // Create order items
+      const reservedLines = [];
+      for (const item of orderItems) {
+        const itemResult = await client.query(
+          `INSERT INTO order_items (order_id, product_id, variant_id, sku, variant_options, quantity, price, discount_amount)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+           RETURNING id`,
+          [
+            order.id,
+            item.productId,
+            item.variantId,
+            item.sku,
+            item.variantOptions ? JSON.stringify(item.variantOptions) : null,
+            item.quantity,
+            item.price,
+            item.discount,
+          ]
+        );
 
-    // Clear cart
-    await query("DELETE FROM cart WHERE user_id = $1", [userId]);
+        reservedLines.push({
+          orderItemId: itemResult.rows[0].id,
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+        });
+      }
+
+      // Hold the stock for the order
+      await inventoryService.reserveOrder(client, order.id, reservedLines);
+      if (CASH_ON_DELIVERY_METHODS.includes(paymentMethod)) {
+        await inventoryService.commitOrder(client, order.id);
+      }
 
-    return order;
+      // Clear cart (a guest cart is deleted outright, which also invalidates its token)
+      if (guestCartId) {
+        await client.query("DELETE FROM guest_carts WHERE id = $1", [guestCartId]);
+      } else {
+        await client.query("DELETE FROM cart WHERE user_id = $1", [userId]);
+      }
+
+      return order;
+    });
+  },
+
+  // Sign a token that lets a guest view and pay for their order
+  createGuestOrderToken(orderId: string) {
+    return jwt.sign({ orderId, purpose: "guest_order" }, ORDER_TOKEN_SECRET, {
+      expiresIn: GUEST_ORDER_TOKEN_EXPIRES_IN,
+    });
+  },
+
+  // Resolve a guest order token to its order ID (null if invalid or expired)
+  verifyGuestOrderToken(orderToken: string): string | null {
+    try {
+      const decoded = jwt.verify(orderToken, ORDER_TOKEN_SECRET) as { orderId?: string; purpose?: string };
+      return decoded.purpose === "guest_order" && decoded.orderId ? decoded.orderId : null;
+    } catch (error) {
+      return null;
+    }
   },
 
   // Get order by ID
@@ -156,8 +407,12 @@ export const orderService = {
       id: row.id,
       order_id: row.order_id,
       product_id: row.product_id,
+      variant_id: row.variant_id,
+      sku: row.sku,
+      variant_options: row.variant_options,
       quantity: row.quantity,
       price: parseFloat(row.price),
+      discount_amount: parseFloat(row.discount_amount || "0"),
       created_at: row.created_at,
       product: {
         id: row.product_id_full,
@@ -176,26 +431,200 @@ export const orderService = {
     return result.rows;
   },
 
-  // Get all orders (admin only)
-  async getAllOrders(): Promise<Order[]> {
+  // Get all orders (admin only); refundRequired keeps orders flagged for a refund
+  async getAllOrders(filters: { refundRequired?: boolean } = {}): Promise<Order[]> {
     const result = await query(
-      "SELECT * FROM orders ORDER BY created_at DESC"
+      `SELECT * FROM orders ${filters.refundRequired ? "WHERE refund_required_at IS NOT NULL" : ""} ORDER BY created_at DESC`
     );
     return result.rows;
   },
 
-  // Update order status
-  async updateOrderStatus(orderId: string, status: string) {
-    const validStatuses = ["pending", "processing", "shipped", "delivered", "cancelled"];
-    if (!validStatuses.includes(status)) {
-      throw new Error("Invalid order status");
+  // Get status timeline for an order (oldest first)
+  async getOrderHistory(orderId: string): Promise<OrderStatusHistory[]> {
+    const result = await query(
+      "SELECT * FROM order_status_history WHERE order_id = $1 ORDER BY created_at, id",
+      [orderId]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Cancel an order on behalf of its customer
+   * 
+   * @param orderId - Order to cancel
+   * @param userId - Owner the order must belong to (omit for admins)
+   * @param options - Who is cancelling and why
+   * @returns Cancelled order and the refunds issued
+   * @throws Error if the order is not found, has already shipped or has a shipment
+   * 
+   * The cancellation itself (restock, voided payments, released coupon) commits first;
+   * captured payments are then refunded in full. A refund that fails is reported in
+   * refundErrors so staff can retry it from the payments admin.
+   */
+  async cancelOrder(orderId: string, userId?: string, options: { actorId?: string; reason?: string } = {}) {
+    const order = await this.getOrderById(orderId, userId);
+    if (!order) {
+      throw new Error("Order not found");
+    }
+
+    if (!CUSTOMER_CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new Error(`Orders that are ${order.status} can no longer be cancelled`);
+    }
+
+    const cancelledOrder = await this.updateOrderStatus(orderId, "cancelled", {
+      actorId: options.actorId,
+      note: options.reason || "Cancelled by customer",
+    });
+
+    // Refund whatever was captured; stock was already returned by the cancellation
+    const refunds = [];
+    const refundErrors: Array<{ paymentId: string; error: string }> = [];
+    const payments = await paymentService.getPaymentsByOrderId(orderId);
+    for (const payment of payments) {
+      if (payment.status !== "succeeded" && payment.status !== "partially_refunded") {
+        continue;
+      }
+      try {
+        const result = await paymentService.refundPayment(
+          payment.id,
+          { reason: options.reason || "Order cancelled", restock: false },
+          options.actorId
+        );
+        refunds.push(result.refund);
+      } catch (error: unknown) {
+        console.error("Refund on cancellation failed", { orderId, paymentId: payment.id, error });
+        refundErrors.push({ paymentId: payment.id, error: error instanceof Error ? error.message : String(error) });
+      }
     }
 
+    const refreshed = await this.getOrderById(orderId);
+    return { order: refreshed || cancelledOrder, refunds, refundErrors };
+  },
+
+  /**
+   * Cancel unpaid pending orders whose stock holds have expired (run by the reservation sweeper)
+   * 
+   * @returns Number of orders cancelled
+   */
+  async expireUnpaidOrders() {
     const result = await query(
-      "UPDATE orders SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2 RETURNING *",
+      `SELECT DISTINCT r.order_id FROM inventory_reservations r
+       JOIN orders o ON o.id = r.order_id
+       WHERE r.status = 'active' AND r.expires_at <= CURRENT_TIMESTAMP
+       AND o.status = 'pending' AND o.payment_status != 'paid'`
+    );
+
+    let expired = 0;
+    for (const row of result.rows) {
+      try {
+        const cancelled = await withTransaction(async (client) => {
+          // Re-check under the order lock: payment may have started or succeeded meanwhile
+          const orderResult = await client.query(
+            `SELECT o.id FROM orders o
+             WHERE o.id = $1 AND o.status = 'pending' AND o.payment_status != 'paid'
+             AND EXISTS (
+               SELECT 1 FROM inventory_reservations r
+               WHERE r.order_id = o.id AND r.status = 'active' AND r.expires_at <= CURRENT_TIMESTAMP
+             )
+             FOR UPDATE`,
+            [row.order_id]
+          );
+          if (orderResult.rows.length === 0) {
+            return false;
+          }
+
+          await inventoryService.releaseOrder(client, row.order_id, "expired");
+          await this.transitionStatus(client, row.order_id, "cancelled", {
+            note: "Stock hold expired before payment",
+          });
+          return true;
+        });
+        if (cancelled) {
+          expired++;
+        }
+      } catch (error) {
+        console.error("Failed to expire unpaid order", { orderId: row.order_id, error });
+      }
+    }
+
+    return expired;
+  },
+
+  /**
+   * Move an order to a new status
+   * 
+   * @param orderId - Order to update
+   * @param status - Target status; must be reachable from the current status
+   * @param options - Who made the change and an optional note for the timeline
+   * @returns Updated order
+   * @throws Error if the status is shipped or delivered (set by shipments), the order
+   * does not exist, the transition is not allowed, the order has shipments and is being
+   * cancelled, or moving to processing finds that stock for an expired hold is gone
+   * 
+   * Runs in one transaction: the order row is locked, the change is recorded in
+   * order_status_history, and side effects of the new status are applied
+   * (processing commits held stock; cancelling releases held stock or restocks
+   * items, voids pending payments and releases the coupon).
+   */
+  async updateOrderStatus(orderId: string, status: string, options: { actorId?: string; note?: string } = {}) {
+    if (SHIPMENT_STATUSES.includes(status)) {
+      throw new Error("Orders are marked shipped and delivered through their shipments");
+    }
+    return withTransaction((client) => this.transitionStatus(client, orderId, status, options));
+  },
+
+  // Same as updateOrderStatus, inside the caller's transaction
+  async transitionStatus(
+    client: PoolClient,
+    orderId: string,
+    status: string,
+    options: { actorId?: string; note?: string } = {}
+  ): Promise<Order> {
+    if (!ORDER_STATUSES.includes(status)) {
+      throw new Error("Invalid order status");
+    }
+
+    const orderResult = await client.query("SELECT * FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+    if (orderResult.rows.length === 0) {
+      throw new Error("Order not found");
+    }
+
+    const currentStatus: string = orderResult.rows[0].status;
+    if (!ORDER_STATUS_TRANSITIONS[currentStatus]?.includes(status)) {
+      throw new Error(`Cannot change order status from ${currentStatus} to ${status}`);
+    }
+
+    // Shipped units cannot be restocked or refunded by a cancellation
+    if (status === "cancelled") {
+      const shipmentsResult = await client.query("SELECT 1 FROM shipments WHERE order_id = $1 LIMIT 1", [orderId]);
+      if (shipmentsResult.rows.length > 0) {
+        throw new Error("Orders with shipments can no longer be cancelled");
+      }
+    }
+
+    const timestampColumn = STATUS_TIMESTAMP_COLUMNS[status];
+    const result = await client.query(
+      `UPDATE orders SET status = $1, ${timestampColumn ? `${timestampColumn} = CURRENT_TIMESTAMP, ` : ""}updated_at = CURRENT_TIMESTAMP
+       WHERE id = $2 RETURNING *`,
       [status, orderId]
     );
 
+    await recordStatusChange(client, orderId, currentStatus, status, options.actorId, options.note);
+
+    // Fulfilment takes the held units from stock (already done if the order was paid)
+    if (status === "processing") {
+      const shortages = await inventoryService.commitOrder(client, orderId, options.actorId);
+      if (shortages.length > 0) {
+        throw new Error("Some items in this order are no longer in stock");
+      }
+    }
+
+    if (status === "cancelled") {
+      await restockOrderItems(client, orderId, options.actorId);
+      await paymentService.voidPendingPayments(client, orderId);
+      await couponService.releaseRedemption(client, orderId);
+    }
+
     return result.rows[0];
   },
 };
@@ -0,0 +1,63 @@
+/**
+ * Cash on Delivery Payment Provider
+ * 
+ * No gateway is involved: the intent is a local reference that stays pending
+ * until the cash is collected, and refunds are paid out manually by staff.
+ */
+
+import crypto from "crypto";
+import {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderIntent,
+  CreateIntentParams,
+  RefundParams,
+  ProviderRefund,
+} from "./types";
+
+// Payment method names routed to this provider
+export const CASH_ON_DELIVERY_METHODS = ["cash_on_delivery", "cod"];
+
+export class CashOnDeliveryPaymentProvider implements PaymentProvider {
+  readonly name = "cash_on_delivery";
+  readonly webhookSignatureHeader = null;
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderIntent> {
+    return {
+      id: `cod_${crypto.randomUUID()}`,
+      status: "pending",
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      clientSecret: null,
+      transactionId: null,
+    };
+  }
+
+  async retrieveIntent(intentId: string): Promise<ProviderIntent> {
+    // Collection is recorded by staff (paymentService.markCollected), never by the provider
+    return {
+      id: intentId,
+      status: "pending",
+      amount: 0,
+      currency: "",
+      clientSecret: null,
+      transactionId: null,
+    };
+  }
+
+  async cancelIntent(): Promise<void> {
+    // Nothing to cancel with a provider; the payment record is voided locally
+  }
+
+  async refund(params: RefundParams): Promise<ProviderRefund> {
+    return {
+      id: `cod_re_${crypto.randomUUID()}`,
+      amount: params.amount || 0,
+      status: "manual",
+    };
+  }
+
+  parseWebhook(): ProviderEvent {
+    throw new Error("Cash on delivery does not support webhooks");
+  }
+}
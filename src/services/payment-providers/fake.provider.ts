@@ -0,0 +1,157 @@
+/**
+ * Fake Payment Provider
+ * 
+ * Deterministic, in-process provider for development and tests. Nothing leaves
+ * the process and no API key is needed.
+ * 
+ * Behaviour:
+ * - Intent IDs are random (fake_pi_<uuid>), so they never repeat across restarts
+ * - Intents stay pending until settled by settleIntent() or a signed payment_succeeded /
+ *   payment_failed webhook; intents created with paymentMethod "card_declined" always fail
+ * - Intents live in memory only: after a restart an unknown intent is reported as failed,
+ *   so the payment service creates a new one instead of waiting on it forever
+ * - Webhook payloads are ProviderEvent JSON signed with HMAC-SHA256 of the raw body,
+ *   sent as a hex digest in the X-Fake-Signature header (see signFakeWebhookPayload)
+ */
+
+import crypto from "crypto";
+import {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderIntent,
+  CreateIntentParams,
+  RefundParams,
+  ProviderRefund,
+} from "./types";
+
+// Payment method that simulates a declined card
+export const FAKE_DECLINED_METHOD = "card_declined";
+
+/**
+ * Sign a payload the way the fake provider expects
+ * Useful for building webhook requests in tests and local scripts.
+ */
+export const signFakeWebhookPayload = (payload: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(payload).digest("hex");
+
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+  readonly webhookSignatureHeader = "x-fake-signature";
+
+  private readonly intents = new Map<string, ProviderIntent & { declined: boolean; refunded: number }>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderIntent> {
+    const id = `fake_pi_${crypto.randomUUID()}`;
+    const intent = {
+      id,
+      status: "pending" as const,
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      clientSecret: `${id}_secret`,
+      transactionId: null,
+      declined: params.paymentMethod === FAKE_DECLINED_METHOD,
+      refunded: 0,
+    };
+    this.intents.set(id, intent);
+    return this.toIntent(intent);
+  }
+
+  async retrieveIntent(intentId: string): Promise<ProviderIntent> {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      // Lost with a restart; it can never be completed
+      return { id: intentId, status: "failed", amount: 0, currency: "", clientSecret: null, transactionId: null };
+    }
+    return this.toIntent(intent);
+  }
+
+  /**
+   * Settle a pending intent, as if the customer completed (or abandoned) payment
+   * Test helper; a signed payment_succeeded / payment_failed webhook does the same.
+   * Declined intents always fail.
+   * 
+   * @throws Error if the intent is unknown
+   */
+  settleIntent(intentId: string, outcome: "succeeded" | "failed" = "succeeded"): ProviderIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new Error(`No such payment intent: ${intentId}`);
+    }
+    if (intent.status === "pending") {
+      intent.status = intent.declined ? "failed" : outcome;
+      intent.transactionId = intent.status === "succeeded" ? `fake_ch_${crypto.randomUUID()}` : null;
+    }
+    return this.toIntent(intent);
+  }
+
+  async cancelIntent(intentId: string): Promise<void> {
+    const intent = this.intents.get(intentId);
+    if (intent && intent.status === "pending") {
+      intent.status = "failed";
+    }
+  }
+
+  async refund(params: RefundParams): Promise<ProviderRefund> {
+    const intent = this.intents.get(params.intentId);
+    if (!intent) {
+      throw new Error(`No such payment intent: ${params.intentId}`);
+    }
+    if (intent.status !== "succeeded") {
+      throw new Error("Only succeeded payments can be refunded");
+    }
+
+    const remaining = Math.round((intent.amount - intent.refunded) * 100) / 100;
+    const amount = params.amount !== undefined ? params.amount : remaining;
+    if (amount <= 0 || amount > remaining) {
+      throw new Error("Refund amount exceeds the refundable balance");
+    }
+
+    intent.refunded = Math.round((intent.refunded + amount) * 100) / 100;
+    return { id: `fake_re_${crypto.randomUUID()}`, amount, status: "succeeded" };
+  }
+
+  parseWebhook(payload: Buffer | string, signature: string): ProviderEvent {
+    const body = typeof payload === "string" ? payload : payload.toString("utf8");
+    const expected = signFakeWebhookPayload(body, this.webhookSecret);
+
+    const valid =
+      signature.length === expected.length &&
+      crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    if (!valid) {
+      throw new Error("Invalid webhook signature");
+    }
+
+    const event = JSON.parse(body) as ProviderEvent;
+    if (!event.id || !event.type) {
+      throw new Error("Webhook payload must include id and type");
+    }
+
+    // Keep the in-memory intent in step with the outcome the webhook reports
+    if (
+      event.paymentIntentId &&
+      this.intents.has(event.paymentIntentId) &&
+      (event.type === "payment_succeeded" || event.type === "payment_failed")
+    ) {
+      const settled = this.settleIntent(
+        event.paymentIntentId,
+        event.type === "payment_succeeded" ? "succeeded" : "failed"
+      );
+      event.transactionId = event.transactionId || settled.transactionId;
+    }
+
+    return { ...event, providerType: event.providerType || event.type, raw: event };
+  }
+
+  private toIntent(intent: ProviderIntent): ProviderIntent {
+    return {
+      id: intent.id,
+      status: intent.status,
+      amount: intent.amount,
+      currency: intent.currency,
+      clientSecret: intent.clientSecret,
+      transactionId: intent.transactionId,
+    };
+  }
+}
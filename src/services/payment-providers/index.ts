@@ -0,0 +1,73 @@
+/**
+ * Payment Provider Registry
+ * 
+ * Selects the payment provider for a payment. Card payments go through the
+ * provider named by PAYMENT_PROVIDER (stripe by default, or fake for offline
+ * development, never in production); cash on delivery methods always use the
+ * cash on delivery provider.
+ * Providers are created on first use.
+ */
+
+import dotenv from "dotenv";
+import { PaymentProvider } from "./types";
+import { StripePaymentProvider } from "./stripe.provider";
+import { FakePaymentProvider } from "./fake.provider";
+import { CashOnDeliveryPaymentProvider, CASH_ON_DELIVERY_METHODS } from "./cod.provider";
+
+dotenv.config();
+
+export * from "./types";
+export { FakePaymentProvider, signFakeWebhookPayload, FAKE_DECLINED_METHOD } from "./fake.provider";
+export { CASH_ON_DELIVERY_METHODS } from "./cod.provider";
+
+const providerFactories: Record<string, () => PaymentProvider> = {
+  stripe: () =>
+    new StripePaymentProvider(process.env.STRIPE_SECRET_KEY || "", process.env.STRIPE_WEBHOOK_SECRET || ""),
+  cash_on_delivery: () => new CashOnDeliveryPaymentProvider(),
+};
+
+// The fake provider settles intents on request and trusts anyone holding its secret, so it is
+// only available when it is the configured provider outside production
+if (process.env.PAYMENT_PROVIDER === "fake" && process.env.NODE_ENV !== "production") {
+  providerFactories.fake = () => {
+    const webhookSecret = process.env.FAKE_PAYMENT_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+      throw new Error("FAKE_PAYMENT_WEBHOOK_SECRET must be set to use the fake payment provider");
+    }
+    return new FakePaymentProvider(webhookSecret);
+  };
+}
+
+const providers = new Map<string, PaymentProvider>();
+
+/**
+ * Get a provider by name
+ * @throws Error if no provider is registered under that name
+ */
+export const getPaymentProvider = (name: string): PaymentProvider => {
+  let provider = providers.get(name);
+  if (!provider) {
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown payment provider: ${name}`);
+    }
+    provider = factory();
+    providers.set(name, provider);
+  }
+  return provider;
+};
+
+/**
+ * Name of the provider configured for online payments
+ */
+export const getDefaultProviderName = () => process.env.PAYMENT_PROVIDER || "stripe";
+
+/**
+ * Pick the provider that handles a payment method
+ */
+export const resolvePaymentProvider = (paymentMethod: string): PaymentProvider => {
+  if (CASH_ON_DELIVERY_METHODS.includes(paymentMethod)) {
+    return getPaymentProvider("cash_on_delivery");
+  }
+  return getPaymentProvider(getDefaultProviderName());
+};
@@ -0,0 +1,167 @@
+/**
+ * Stripe Payment Provider
+ * 
+ * Card payments through Stripe PaymentIntents. The Stripe client is created
+ * on first use so the rest of the app can load without STRIPE_SECRET_KEY.
+ */
+
+import Stripe from "stripe";
+import {
+  PaymentProvider,
+  ProviderEvent,
+  ProviderEventType,
+  ProviderIntent,
+  CreateIntentParams,
+  RefundParams,
+  ProviderRefund,
+} from "./types";
+
+const idOf = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : value ? value.id : null;
+
+// Stripe works in the smallest currency unit (cents)
+const toMinorUnits = (amount: number) => Math.round(amount * 100);
+const toMajorUnits = (amount: number) => amount / 100;
+
+const toIntent = (intent: Stripe.PaymentIntent): ProviderIntent => {
+  let status: ProviderIntent["status"] = "pending";
+  if (intent.status === "succeeded") {
+    status = "succeeded";
+  } else if (intent.status === "canceled") {
+    status = "failed";
+  } else if (intent.status === "requires_payment_method" && intent.last_payment_error) {
+    // Stripe returns to requires_payment_method after a declined attempt
+    status = "failed";
+  }
+
+  return {
+    id: intent.id,
+    status,
+    amount: toMajorUnits(intent.amount),
+    currency: intent.currency,
+    clientSecret: intent.client_secret,
+    transactionId: idOf(intent.latest_charge),
+  };
+};
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe";
+  readonly webhookSignatureHeader = "stripe-signature";
+
+  private client: Stripe | null = null;
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly webhookSecret: string
+  ) {}
+
+  private get stripe(): Stripe {
+    if (!this.client) {
+      this.client = new Stripe(this.secretKey, { apiVersion: "2023-10-16" });
+    }
+    return this.client;
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderIntent> {
+    const intent = await this.stripe.paymentIntents.create(
+      {
+        amount: toMinorUnits(params.amount),
+        currency: params.currency.toLowerCase(),
+        payment_method_types: [params.paymentMethod],
+        metadata: params.metadata,
+      },
+      params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined
+    );
+    return toIntent(intent);
+  }
+
+  async retrieveIntent(intentId: string): Promise<ProviderIntent> {
+    const intent = await this.stripe.paymentIntents.retrieve(intentId);
+    return toIntent(intent);
+  }
+
+  async cancelIntent(intentId: string): Promise<void> {
+    await this.stripe.paymentIntents.cancel(intentId);
+  }
+
+  async refund(params: RefundParams): Promise<ProviderRefund> {
+    const refund = await this.stripe.refunds.create(
+      {
+        payment_intent: params.intentId,
+        amount: params.amount !== undefined ? toMinorUnits(params.amount) : undefined,
+        metadata: {
+          ...(params.reason && { reason: params.reason }),
+          ...(params.reference && { refundId: params.reference }),
+        },
+      },
+      params.idempotencyKey ? { idempotencyKey: params.idempotencyKey } : undefined
+    );
+    return { id: refund.id, amount: toMajorUnits(refund.amount), status: refund.status || "pending" };
+  }
+
+  parseWebhook(payload: Buffer | string, signature: string): ProviderEvent {
+    if (!this.webhookSecret) {
+      throw new Error("Stripe webhook secret is not configured");
+    }
+
+    // Verified locally with the signing secret; no request is made to Stripe
+    const event = this.stripe.webhooks.constructEvent(payload, signature, this.webhookSecret);
+    const base = { id: event.id, providerType: event.type, raw: event };
+
+    switch (event.type) {
+      case "payment_intent.succeeded":
+      case "payment_intent.payment_failed": {
+        const intent = event.data.object as Stripe.PaymentIntent;
+        return {
+          ...base,
+          type: event.type === "payment_intent.succeeded" ? "payment_succeeded" : "payment_failed",
+          paymentIntentId: intent.id,
+          transactionId: idOf(intent.latest_charge),
+          errorMessage: intent.last_payment_error?.message || null,
+        };
+      }
+
+      case "charge.refunded": {
+        const charge = event.data.object as Stripe.Charge;
+        return {
+          ...base,
+          type: "refunded",
+          paymentIntentId: idOf(charge.payment_intent),
+          amountRefunded: toMajorUnits(charge.amount_refunded),
+          fullyRefunded: charge.refunded,
+          refunds: charge.refunds?.data.map((refund) => ({
+            id: refund.id,
+            amount: toMajorUnits(refund.amount),
+            status: refund.status || "pending",
+            reference: refund.metadata?.refundId || null,
+          })),
+        };
+      }
+
+      case "charge.dispute.created":
+      case "charge.dispute.updated":
+      case "charge.dispute.closed": {
+        const dispute = event.data.object as Stripe.Dispute;
+        const types: Record<string, ProviderEventType> = {
+          "charge.dispute.created": "dispute_opened",
+          "charge.dispute.updated": "dispute_updated",
+          "charge.dispute.closed": "dispute_closed",
+        };
+        return {
+          ...base,
+          type: types[event.type],
+          paymentIntentId: idOf(dispute.payment_intent),
+          dispute: {
+            id: dispute.id,
+            status: dispute.status,
+            reason: dispute.reason,
+            outcome: event.type === "charge.dispute.closed" ? (dispute.status === "lost" ? "lost" : "won") : undefined,
+          },
+        };
+      }
+
+      default:
+        return { ...base, type: "unknown", paymentIntentId: null };
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Payment Provider Types
+ * 
+ * Provider-neutral shapes used by the payment service. Each provider translates
+ * its own API objects into these, so payment and order state handling does not
+ * depend on which gateway processed the money. Amounts are in major currency
+ * units (e.g. dollars), never cents.
+ */
+
+/**
+ * Provider-neutral payment intent status
+ * - pending: created, waiting for the customer or collection
+ * - succeeded: funds captured
+ * - failed: payment attempt failed or was cancelled
+ */
+export type ProviderIntentStatus = "pending" | "succeeded" | "failed";
+
+export interface ProviderIntent {
+  id: string;
+  status: ProviderIntentStatus;
+  amount: number;
+  currency: string;
+  clientSecret: string | null; // Handed to the frontend to complete payment, if the provider uses one
+  transactionId: string | null; // Charge/transaction reference once captured
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  metadata: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export interface RefundParams {
+  intentId: string;
+  amount?: number; // Omit to refund the full remaining amount
+  reason?: string;
+  idempotencyKey?: string; // Retrying with the same key never refunds twice
+  reference?: string; // Our refund id, echoed back in refund webhooks
+}
+
+export interface ProviderRefund {
+  id: string;
+  amount: number;
+  status: string;
+}
+
+/**
+ * Normalized webhook event types
+ */
+export type ProviderEventType =
+  | "payment_succeeded"
+  | "payment_failed"
+  | "refunded"
+  | "dispute_opened"
+  | "dispute_updated"
+  | "dispute_closed"
+  | "unknown";
+
+export interface ProviderEvent {
+  id: string; // Provider event ID, used for idempotency
+  type: ProviderEventType;
+  providerType: string; // Original event type as named by the provider
+  paymentIntentId: string | null;
+  transactionId?: string | null;
+  errorMessage?: string | null;
+  amountRefunded?: number;
+  fullyRefunded?: boolean;
+  refunds?: Array<{
+    id: string;
+    amount: number;
+    status: string;
+    reference?: string | null; // RefundParams.reference the refund was created with
+  }>;
+  dispute?: {
+    id: string;
+    status: string;
+    reason: string | null;
+    outcome?: "won" | "lost";
+  };
+  raw: unknown; // Original payload, stored for auditing
+}
+
+/**
+ * Payment Provider Interface
+ * 
+ * Implemented by every payment gateway integration. Providers are stateless
+ * from the service's point of view; payment records live in the payments table.
+ */
+export interface PaymentProvider {
+  /** Stored in payments.provider so later calls reach the same provider */
+  readonly name: string;
+
+  /** Request header carrying the webhook signature, or null if webhooks are unsupported */
+  readonly webhookSignatureHeader: string | null;
+
+  createIntent(params: CreateIntentParams): Promise<ProviderIntent>;
+
+  retrieveIntent(intentId: string): Promise<ProviderIntent>;
+
+  /** Cancel an intent that has not been paid so it can no longer be completed */
+  cancelIntent(intentId: string): Promise<void>;
+
+  refund(params: RefundParams): Promise<ProviderRefund>;
+
+  /**
+   * Verify a webhook signature against the raw request body and normalize the event
+   * @throws Error if the signature is missing or invalid
+   */
+  parseWebhook(payload: Buffer | string, signature: string): ProviderEvent;
+}
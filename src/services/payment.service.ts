@@ -1,24 +1,72 @@
-import Stripe from "stripe";
-import { query } from "../config/database";
+import { PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
 import { z } from "zod";
+import { couponService } from "./coupon.service";
+import { inventoryService, adjustStock } from "./inventory.service";
+import {
+  getPaymentProvider,
+  getDefaultProviderName,
+  resolvePaymentProvider,
+  PaymentProvider,
+  ProviderEvent,
+  ProviderRefund,
+} from "./payment-providers";
 
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "", {
-  apiVersion: "2023-10-16",
-});
-
+// Amount and currency are always derived from the order, never taken from the client
 export const createPaymentIntentSchema = z.object({
   orderId: z.string().uuid("Invalid order ID"),
-  amount: z.number().positive("Amount must be positive"),
-  currency: z.string().default("usd"),
   paymentMethod: z.string().default("card"),
 });
 
+export const refundSchema = z
+  .object({
+    amount: z.number().positive("Amount must be positive").optional(),
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.string().uuid("Invalid order item ID"),
+          quantity: z.number().int().positive("Quantity must be positive"),
+        })
+      )
+      .min(1)
+      .optional(),
+    reason: z.string().max(500).optional(),
+    restock: z.boolean().default(false),
+  })
+  .refine((data) => !data.restock || data.items, {
+    message: "Items are required to restock",
+    path: ["restock"],
+  });
+
+export interface RefundLineItem {
+  orderItemId: string;
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  amount: number;
+}
+
+export interface Refund {
+  id: string;
+  payment_id: string;
+  order_id: string;
+  amount: number;
+  reason: string | null;
+  line_items: RefundLineItem[] | null;
+  restocked: boolean;
+  actor_id: string | null;
+  provider_refund_id: string | null;
+  status: string;
+  created_at: Date;
+}
+
 export interface Payment {
   id: string;
   order_id: string;
   amount: number;
   currency: string;
   payment_method: string;
+  provider: string;
   payment_intent_id: string | null;
   status: string;
   transaction_id: string | null;
@@ -27,91 +75,395 @@ export interface Payment {
   updated_at: Date;
 }
 
-export const paymentService = {
-  // Create payment intent with Stripe
-  async createPaymentIntent(data: z.infer<typeof createPaymentIntentSchema>) {
-    const { orderId, amount, currency, paymentMethod } = data;
-
-    // Verify order exists
-    const orderResult = await query("SELECT * FROM orders WHERE id = $1", [orderId]);
-    if (orderResult.rows.length === 0) {
-      throw new Error("Order not found");
+// Event whose signature was checked by the named provider
+export type VerifiedProviderEvent = ProviderEvent & { provider: string };
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  duplicate: boolean;
+  handled: boolean;
+}
+
+/**
+ * Flag an order whose captured money has to be refunded, for staff to act on
+ * The first reason is kept until a refund clears the flag.
+ */
+const flagRefundRequired = async (client: PoolClient, orderId: string, reason: string) => {
+  await client.query(
+    `UPDATE orders
+     SET refund_required_reason = COALESCE(refund_required_reason, $2),
+         refund_required_at = COALESCE(refund_required_at, CURRENT_TIMESTAMP),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [orderId, reason]
+  );
+  console.warn("Order flagged for refund", { orderId, reason });
+};
+
+/**
+ * Record a successful or failed payment intent on the payment and its order.
+ * Shared by the client confirm call and the webhook so both converge on the same state.
+ * Payments that already succeeded, were refunded or are disputed are never downgraded to failed.
+ * Success also commits the stock held for the order; if the stock behind an
+ * expired hold is gone, the order is flagged for a refund instead of overselling.
+ * Success for a voided payment or a cancelled order is still recorded (the money was
+ * captured), and the order is flagged for a refund.
+ * Only payments taken by the given provider are matched, so one provider cannot settle another's intents.
+ */
+const applyIntentStatus = async (
+  client: PoolClient,
+  provider: string,
+  paymentIntentId: string,
+  status: "succeeded" | "failed",
+  transactionId: string | null
+) => {
+  const fromStatuses = status === "succeeded" ? ["pending", "failed", "succeeded", "voided"] : ["pending", "failed"];
+  const existingResult = await client.query(
+    "SELECT id, status FROM payments WHERE payment_intent_id = $1 AND provider = $2 AND status = ANY($3) FOR UPDATE",
+    [paymentIntentId, provider, fromStatuses]
+  );
+
+  const existing = existingResult.rows[0];
+  if (!existing) {
+    return null;
+  }
+
+  const paymentResult = await client.query(
+    `UPDATE payments 
+     SET status = $1, transaction_id = COALESCE($2, transaction_id), updated_at = CURRENT_TIMESTAMP
+     WHERE id = $3
+     RETURNING *`,
+    [status, transactionId, existing.id]
+  );
+  const payment = paymentResult.rows[0];
+
+  if (status === "succeeded") {
+    const orderResult = await client.query(
+      "UPDATE orders SET payment_status = 'paid', updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING status",
+      [payment.order_id]
+    );
+
+    // The order's stock was already released, so there is nothing to fulfil
+    if (existing.status === "voided" || orderResult.rows[0]?.status === "cancelled") {
+      await flagRefundRequired(client, payment.order_id, "Payment captured after the order was cancelled");
+      return payment;
+    }
+
+    const shortages = await inventoryService.commitOrder(client, payment.order_id);
+    if (shortages.length > 0) {
+      await flagRefundRequired(client, payment.order_id, "Paid after the stock hold expired and the stock is gone");
     }
+  } else {
+    await client.query(
+      "UPDATE orders SET payment_status = 'failed', updated_at = CURRENT_TIMESTAMP WHERE id = $1 AND payment_status = 'pending'",
+      [payment.order_id]
+    );
+  }
+
+  return payment;
+};
 
-    const order = orderResult.rows[0];
+/**
+ * Merge a JSON fragment into payments.metadata for the payment behind a provider's intent
+ */
+const mergePaymentMetadata = async (
+  client: PoolClient,
+  provider: string,
+  paymentIntentId: string,
+  fragment: Record<string, unknown>,
+  status?: string
+) => {
+  const result = await client.query(
+    `UPDATE payments
+     SET metadata = COALESCE(metadata, '{}'::jsonb) || $1::jsonb,
+         status = COALESCE($2, status),
+         updated_at = CURRENT_TIMESTAMP
+     WHERE payment_intent_id = $3 AND provider = $4
+     RETURNING *`,
+    [JSON.stringify(fragment), status || null, paymentIntentId, provider]
+  );
+  return result.rows[0] || null;
+};
 
-    if (order.payment_status === "paid") {
-      throw new Error("Order is already paid");
+/**
+ * Derive the order's payment status from its captured payments after a refund or dispute.
+ * An open dispute on any payment makes the order disputed.
+ * A fully refunded order also releases its coupon redemption.
+ * 
+ * @param clearRefundFlag - Whether money went back, which settles a refund_required flag
+ */
+const syncOrderRefundStatus = async (client: PoolClient, orderId: string, clearRefundFlag = true) => {
+  const result = await client.query(
+    "SELECT status FROM payments WHERE order_id = $1 AND status IN ('succeeded', 'partially_refunded', 'refunded', 'disputed')",
+    [orderId]
+  );
+  const statuses: string[] = result.rows.map((row) => row.status);
+  if (statuses.length === 0) {
+    return;
+  }
+
+  const fullyRefunded = statuses.every((status) => status === "refunded");
+  const anyRefunded = statuses.some((status) => status !== "succeeded");
+  let paymentStatus = fullyRefunded ? "refunded" : anyRefunded ? "partially_refunded" : "paid";
+  if (statuses.includes("disputed")) {
+    paymentStatus = "disputed";
+  }
+
+  // Staff have acted on a refund flag once a refund is recorded
+  await client.query(
+    `UPDATE orders
+     SET payment_status = $1,
+         refund_required_reason = CASE WHEN $3::boolean THEN NULL ELSE refund_required_reason END,
+         refund_required_at = CASE WHEN $3::boolean THEN NULL ELSE refund_required_at END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2`,
+    [paymentStatus, orderId, clearRefundFlag]
+  );
+
+  if (fullyRefunded) {
+    // A refunded order no longer counts against the coupon's usage limit
+    await couponService.releaseRedemption(client, orderId);
+  }
+};
+
+/**
+ * Bring recorded refunds in step with a provider refund event
+ * Refunds the provider lists are matched by its refund id or by our refund id sent as
+ * reference. Refunds still `requested` after that (the provider's answer was never
+ * recorded) are matched oldest first against the refunded total no recorded refund
+ * accounts for yet, and marked `succeeded`.
+ */
+const reconcileRefunds = async (client: PoolClient, paymentId: string, event: ProviderEvent) => {
+  for (const providerRefund of event.refunds || []) {
+    await client.query(
+      `UPDATE refunds SET provider_refund_id = $1, status = $2
+       WHERE payment_id = $3 AND (provider_refund_id = $1 OR id::text = $4)`,
+      [providerRefund.id, providerRefund.status, paymentId, providerRefund.reference || null]
+    );
+  }
+
+  if (event.amountRefunded === undefined) {
+    return;
+  }
+
+  const acceptedResult = await client.query(
+    `SELECT COALESCE(SUM(amount), 0) as total FROM refunds
+     WHERE payment_id = $1 AND status NOT IN ('requested', 'failed', 'canceled')`,
+    [paymentId]
+  );
+  let unaccounted = event.amountRefunded - parseFloat(acceptedResult.rows[0].total);
+
+  const requestedResult = await client.query(
+    "SELECT id, amount FROM refunds WHERE payment_id = $1 AND status = 'requested' ORDER BY created_at FOR UPDATE",
+    [paymentId]
+  );
+  for (const row of requestedResult.rows) {
+    const amount = parseFloat(row.amount);
+    if (Math.round((unaccounted - amount) * 100) < 0) {
+      continue;
     }
+    await client.query("UPDATE refunds SET status = 'succeeded' WHERE id = $1", [row.id]);
+    unaccounted -= amount;
+  }
+};
 
-    // Create Stripe payment intent
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
-      currency: currency.toLowerCase(),
-      payment_method_types: [paymentMethod],
-      metadata: {
-        orderId: orderId,
-      },
-    });
+/**
+ * Provider that processed a stored payment
+ */
+const providerFor = (payment: { provider?: string | null }): PaymentProvider =>
+  getPaymentProvider(payment.provider || "stripe");
 
-    // Create payment record
-    const paymentResult = await query(
-      `INSERT INTO payments (
-        order_id, amount, currency, payment_method, payment_intent_id, status
-      ) VALUES ($1, $2, $3, $4, $5, $6)
-      RETURNING *`,
-      [orderId, amount, currency, paymentMethod, paymentIntent.id, "pending"]
+export const paymentService = {
+  /**
+   * Get what is still owed on an order
+   * 
+   * @returns Order total, amount already captured and the outstanding balance
+   * 
+   * Captured payments count net of their refunds, including partially refunded
+   * and disputed ones, so a partial refund does not reopen the full balance.
+   */
+  async getOrderBalance(client: PoolClient, orderId: string) {
+    const result = await client.query(
+      `SELECT o.total_amount, o.currency,
+        COALESCE((
+          SELECT SUM(p.amount - COALESCE((
+            SELECT SUM(r.amount) FROM refunds r WHERE r.payment_id = p.id AND r.status NOT IN ('failed', 'canceled')
+          ), 0))
+          FROM payments p
+          WHERE p.order_id = o.id AND p.status IN ('succeeded', 'partially_refunded', 'disputed')
+        ), 0) as paid_amount
+       FROM orders o
+       WHERE o.id = $1`,
+      [orderId]
     );
 
+    const row = result.rows[0];
+    const totalAmount = parseFloat(row.total_amount);
+    const paidAmount = parseFloat(row.paid_amount);
+
     return {
-      payment: paymentResult.rows[0],
-      clientSecret: paymentIntent.client_secret,
+      totalAmount,
+      paidAmount,
+      outstandingAmount: Math.max(Math.round((totalAmount - paidAmount) * 100) / 100, 0),
+      currency: (row.currency || "USD") as string,
     };
   },
 
+  /**
+   * Create (or reuse) a payment intent for an order
+   * 
+   * @param data - Order ID and payment method
+   * @param userId - Owner the order must belong to (omit for admins)
+   * @returns Payment record, client secret, and whether an open intent was reused
+   * @throws Error if the order is not found, cancelled, already paid (even if since refunded),
+   * or has nothing left to pay
+   * 
+   * The amount and currency come from the order's outstanding balance. The order row
+   * is locked while checking for an open intent, so client retries get the existing
+   * pending intent back instead of creating a duplicate.
+   */
+  async createPaymentIntent(data: z.infer<typeof createPaymentIntentSchema>, userId?: string) {
+    const { orderId, paymentMethod } = data;
+
+    return withTransaction(async (client) => {
+      // Verify order exists and belongs to the user; lock it so concurrent retries serialize
+      let sql = "SELECT * FROM orders WHERE id = $1";
+      const params: string[] = [orderId];
+      if (userId) {
+        sql += " AND user_id = $2";
+        params.push(userId);
+      }
+      const orderResult = await client.query(`${sql} FOR UPDATE`, params);
+      if (orderResult.rows.length === 0) {
+        throw new Error("Order not found");
+      }
+
+      const order = orderResult.rows[0];
+
+      if (order.payment_status === "paid") {
+        throw new Error("Order is already paid");
+      }
+
+      if (order.status === "cancelled") {
+        throw new Error("Order is cancelled");
+      }
+
+      // A refund or dispute never reopens an order for payment
+      const capturedResult = await client.query(
+        `SELECT 1 FROM payments
+         WHERE order_id = $1 AND status IN ('succeeded', 'partially_refunded', 'refunded', 'disputed')
+         LIMIT 1`,
+        [orderId]
+      );
+      if (capturedResult.rows.length > 0) {
+        throw new Error("Order has already been paid");
+      }
+
+      const { outstandingAmount, currency } = await this.getOrderBalance(client, orderId);
+      if (outstandingAmount <= 0) {
+        throw new Error("Order has no outstanding balance");
+      }
+
+      // Keep the order's stock held while the customer pays
+      await inventoryService.renewHolds(client, orderId);
+
+      const provider = resolvePaymentProvider(paymentMethod);
+
+      // Reuse an open intent for the same provider, method and amount
+      const openResult = await client.query(
+        `SELECT * FROM payments
+         WHERE order_id = $1 AND status = 'pending' AND provider = $2 AND payment_method = $3 AND amount = $4
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [orderId, provider.name, paymentMethod, outstandingAmount]
+      );
+      if (openResult.rows.length > 0 && openResult.rows[0].payment_intent_id) {
+        const openIntent = await provider.retrieveIntent(openResult.rows[0].payment_intent_id);
+        if (openIntent.status === "pending") {
+          return { payment: openResult.rows[0], clientSecret: openIntent.clientSecret, reused: true };
+        }
+      }
+
+      // Create payment intent with the provider
+      const paymentIntent = await provider.createIntent({
+        amount: outstandingAmount,
+        currency,
+        paymentMethod,
+        metadata: {
+          orderId: orderId,
+        },
+      });
+
+      // Create payment record
+      const paymentResult = await client.query(
+        `INSERT INTO payments (
+          order_id, amount, currency, payment_method, provider, payment_intent_id, status
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [orderId, outstandingAmount, currency, paymentMethod, provider.name, paymentIntent.id, "pending"]
+      );
+
+      return {
+        payment: paymentResult.rows[0],
+        clientSecret: paymentIntent.clientSecret,
+        reused: false,
+      };
+    });
+  },
+
   // Confirm payment
-  async confirmPayment(paymentIntentId: string) {
-    // Retrieve payment intent from Stripe
-    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-
-    // Update payment record
-    const paymentResult = await query(
-      `UPDATE payments 
-       SET status = $1, transaction_id = $2, updated_at = CURRENT_TIMESTAMP
-       WHERE payment_intent_id = $3
-       RETURNING *`,
-      [
-        paymentIntent.status === "succeeded" ? "succeeded" : "failed",
-        paymentIntent.id,
-        paymentIntentId,
-      ]
-    );
+  // When userId is given, the payment's order must belong to that user;
+  // when orderId is given (guest order token), the payment must be for that order
+  async confirmPayment(paymentIntentId: string, userId?: string, orderId?: string) {
+    let sql = `SELECT p.* FROM payments p
+       JOIN orders o ON p.order_id = o.id
+       WHERE p.payment_intent_id = $1`;
+    const params: string[] = [paymentIntentId];
+    if (userId) {
+      params.push(userId);
+      sql += ` AND o.user_id = $${params.length}`;
+    }
+    if (orderId) {
+      params.push(orderId);
+      sql += ` AND o.id = $${params.length}`;
+    }
 
-    if (paymentResult.rows.length === 0) {
+    const existing = await query(sql, params);
+    if (existing.rows.length === 0) {
       throw new Error("Payment record not found");
     }
 
-    const payment = paymentResult.rows[0];
+    // Retrieve payment intent from the provider that created it
+    const provider = providerFor(existing.rows[0]);
+    const paymentIntent = await provider.retrieveIntent(paymentIntentId);
 
-    // Update order payment status
-    if (paymentIntent.status === "succeeded") {
-      await query(
-        "UPDATE orders SET payment_status = 'paid', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-        [payment.order_id]
-      );
-    } else if ((paymentIntent.status as string) === "payment_failed") {
-      await query(
-        "UPDATE orders SET payment_status = 'failed', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-        [payment.order_id]
-      );
+    // Still waiting on the customer or on collection - nothing to record yet
+    const status = paymentIntent.status;
+    if (status === "pending") {
+      return existing.rows[0];
     }
 
-    return payment;
+    // Update payment record and order payment status
+    const payment = await withTransaction((client) =>
+      applyIntentStatus(client, provider.name, paymentIntentId, status, paymentIntent.transactionId || paymentIntent.id)
+    );
+
+    // Payment already moved past this state (e.g. refunded or disputed)
+    return payment || existing.rows[0];
   },
 
   // Get payment by ID
-  async getPaymentById(paymentId: string): Promise<Payment | null> {
-    const result = await query("SELECT * FROM payments WHERE id = $1", [paymentId]);
+  // When userId is given, the payment's order must belong to that user
+  async getPaymentById(paymentId: string, userId?: string): Promise<Payment | null> {
+    let sql = "SELECT p.* FROM payments p JOIN orders o ON p.order_id = o.id WHERE p.id = $1";
+    const params: string[] = [paymentId];
+    if (userId) {
+      sql += " AND o.user_id = $2";
+      params.push(userId);
+    }
+
+    const result = await query(sql, params);
     return result.rows.length > 0 ? result.rows[0] : null;
   },
 
@@ -124,43 +476,395 @@ export const paymentService = {
     return result.rows;
   },
 
-  // Refund payment
-  async refundPayment(paymentId: string) {
-    const paymentResult = await query("SELECT * FROM payments WHERE id = $1", [paymentId]);
-    if (paymentResult.rows.length === 0) {
-      throw new Error("Payment not found");
+  /**
+   * Record that staff collected a cash on delivery payment
+   * 
+   * @param paymentId - Pending cash on delivery payment
+   * @param actorId - Staff member who collected the cash
+   * @returns Updated payment
+   * @throws Error if the payment is not found, not cash on delivery, or not pending
+   * 
+   * Goes through the same path as a provider success, so the order is marked paid
+   * and the payment can later be refunded.
+   */
+  async markCollected(paymentId: string, actorId: string): Promise<Payment> {
+    return withTransaction(async (client) => {
+      const paymentResult = await client.query("SELECT * FROM payments WHERE id = $1 FOR UPDATE", [paymentId]);
+      if (paymentResult.rows.length === 0) {
+        throw new Error("Payment not found");
+      }
+
+      const payment = paymentResult.rows[0];
+      if (payment.provider !== "cash_on_delivery") {
+        throw new Error("Only cash on delivery payments can be marked as collected");
+      }
+      if (payment.status !== "pending") {
+        throw new Error("Only pending payments can be marked as collected");
+      }
+
+      await applyIntentStatus(client, payment.provider, payment.payment_intent_id, "succeeded", null);
+      return mergePaymentMetadata(client, payment.provider, payment.payment_intent_id, {
+        collectedBy: actorId,
+        collectedAt: new Date().toISOString(),
+      });
+    });
+  },
+
+  /**
+   * Refund all or part of a payment
+   * 
+   * @param paymentId - Payment to refund
+   * @param data - Explicit amount and/or order lines to refund; neither means the full remaining balance
+   * @param actorId - Admin issuing the refund
+   * @returns Recorded refund and the payment's new status
+   * @throws Error if the payment is not refundable, the amount exceeds what is left, or the provider refuses
+   * 
+   * Line refunds are priced at what the customer paid per unit (line price less its
+   * coupon discount) and cannot exceed the quantity not yet refunded. The payment row
+   * is locked while the refund is priced so concurrent refunds cannot over-refund.
+   * 
+   * The refund is written to the ledger as `requested` before the provider is called
+   * (with the refund id as idempotency key), so money never moves without a record:
+   * a provider error marks it `failed`, and if recording the outcome fails the
+   * provider refund id is still saved for the refund webhook to reconcile.
+   */
+  async refundPayment(paymentId: string, data: z.infer<typeof refundSchema> = { restock: false }, actorId?: string) {
+    const { payment, refund, lineItems } = await withTransaction(async (client) => {
+      const paymentResult = await client.query("SELECT * FROM payments WHERE id = $1 FOR UPDATE", [paymentId]);
+      if (paymentResult.rows.length === 0) {
+        throw new Error("Payment not found");
+      }
+
+      const payment = paymentResult.rows[0];
+
+      if (!payment.payment_intent_id) {
+        throw new Error("Payment intent ID not found");
+      }
+
+      if (payment.status !== "succeeded" && payment.status !== "partially_refunded") {
+        throw new Error("Only succeeded payments can be refunded");
+      }
+
+      // Requested refunds count too: their money may already be on its way back
+      const refundedResult = await client.query(
+        `SELECT COALESCE(SUM(amount), 0) as total FROM refunds
+         WHERE payment_id = $1 AND status NOT IN ('failed', 'canceled')`,
+        [paymentId]
+      );
+      const paymentAmount = parseFloat(payment.amount);
+      const refundable = Math.round((paymentAmount - parseFloat(refundedResult.rows[0].total)) * 100) / 100;
+
+      // Price the requested lines against what is left to refund on each
+      const lineItems: RefundLineItem[] = [];
+      if (data.items) {
+        const itemsResult = await client.query("SELECT * FROM order_items WHERE order_id = $1", [payment.order_id]);
+        const orderItems = new Map(itemsResult.rows.map((row) => [row.id, row]));
+
+        const previousResult = await client.query(
+          `SELECT line_items FROM refunds
+           WHERE order_id = $1 AND line_items IS NOT NULL AND status NOT IN ('failed', 'canceled')`,
+          [payment.order_id]
+        );
+        const refundedQuantities = new Map<string, number>();
+        for (const row of previousResult.rows) {
+          for (const line of row.line_items as RefundLineItem[]) {
+            refundedQuantities.set(line.orderItemId, (refundedQuantities.get(line.orderItemId) || 0) + line.quantity);
+          }
+        }
+
+        for (const item of data.items) {
+          const orderItem = orderItems.get(item.orderItemId);
+          if (!orderItem) {
+            throw new Error("Order item not found");
+          }
+
+          const remainingQuantity = orderItem.quantity - (refundedQuantities.get(item.orderItemId) || 0);
+          if (item.quantity > remainingQuantity) {
+            throw new Error(`Only ${remainingQuantity} unit(s) of this item can still be refunded`);
+          }
+
+          const lineNet = parseFloat(orderItem.price) * orderItem.quantity - parseFloat(orderItem.discount_amount || "0");
+          lineItems.push({
+            orderItemId: item.orderItemId,
+            productId: orderItem.product_id,
+            variantId: orderItem.variant_id,
+            quantity: item.quantity,
+            amount: Math.round(((lineNet * item.quantity) / orderItem.quantity) * 100) / 100,
+          });
+        }
+      }
+
+      let amount = refundable;
+      if (data.amount !== undefined) {
+        amount = data.amount;
+      } else if (lineItems.length > 0) {
+        amount = Math.round(lineItems.reduce((sum, line) => sum + line.amount, 0) * 100) / 100;
+      }
+      amount = Math.min(amount, refundable);
+
+      if (amount <= 0) {
+        throw new Error("Payment has no refundable balance");
+      }
+      if (data.amount !== undefined && data.amount > refundable) {
+        throw new Error(`Refund amount exceeds the refundable balance of ${refundable}`);
+      }
+
+      const refundResult = await client.query(
+        `INSERT INTO refunds (
+          payment_id, order_id, amount, reason, line_items, restocked, actor_id, status
+        ) VALUES ($1, $2, $3, $4, $5, false, $6, 'requested')
+        RETURNING *`,
+        [
+          paymentId,
+          payment.order_id,
+          amount,
+          data.reason || null,
+          lineItems.length > 0 ? JSON.stringify(lineItems) : null,
+          actorId || null,
+        ]
+      );
+
+      return { payment, refund: refundResult.rows[0] as Refund, lineItems };
+    });
+
+    // Create refund with the provider that took the payment
+    let providerRefund: ProviderRefund;
+    try {
+      const amount = parseFloat(String(refund.amount));
+      providerRefund = await providerFor(payment).refund({
+        intentId: payment.payment_intent_id,
+        amount: amount < parseFloat(payment.amount) ? amount : undefined,
+        reason: data.reason,
+        idempotencyKey: refund.id,
+        reference: refund.id,
+      });
+    } catch (error) {
+      await query("UPDATE refunds SET status = 'failed' WHERE id = $1", [refund.id]);
+      throw error;
     }
 
-    const payment = paymentResult.rows[0];
+    try {
+      return await withTransaction(async (client) => {
+        const refundResult = await client.query(
+          `UPDATE refunds SET provider_refund_id = $1, status = $2, restocked = $3
+           WHERE id = $4
+           RETURNING *`,
+          [providerRefund.id, providerRefund.status, data.restock, refund.id]
+        );
 
-    if (!payment.payment_intent_id) {
-      throw new Error("Payment intent ID not found");
+        // Return refunded units to stock
+        if (data.restock) {
+          for (const line of lineItems) {
+            await adjustStock(client, line.productId, line.variantId, line.quantity, {
+              type: "return",
+              reason: data.reason ? `Refund: ${data.reason}` : "Refund",
+              orderId: payment.order_id,
+              actorId,
+            });
+          }
+        }
+
+        // Update payment status from every refund the provider has accepted
+        await client.query("SELECT id FROM payments WHERE id = $1 FOR UPDATE", [paymentId]);
+        const totalResult = await client.query(
+          `SELECT COALESCE(SUM(amount), 0) as total FROM refunds
+           WHERE payment_id = $1 AND status NOT IN ('requested', 'failed', 'canceled')`,
+          [paymentId]
+        );
+        const paymentStatus =
+          parseFloat(totalResult.rows[0].total) >= parseFloat(payment.amount) ? "refunded" : "partially_refunded";
+        await client.query(
+          `UPDATE payments 
+           SET status = $1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = $2`,
+          [paymentStatus, paymentId]
+        );
+
+        // Update order payment status
+        await syncOrderRefundStatus(client, payment.order_id);
+
+        return {
+          message: "Payment refunded successfully",
+          refundId: providerRefund.id,
+          refund: refundResult.rows[0] as Refund,
+          paymentStatus,
+        };
+      });
+    } catch (error) {
+      // The money has moved: keep the provider's reference so the refund webhook can reconcile
+      console.error("Failed to record refund outcome", { refundId: refund.id, providerRefundId: providerRefund.id, error });
+      await query("UPDATE refunds SET provider_refund_id = $1, status = $2 WHERE id = $3", [
+        providerRefund.id,
+        providerRefund.status,
+        refund.id,
+      ]);
+      throw error;
     }
+  },
+
+  /**
+   * Void every pending payment on an order (e.g. when the order is cancelled)
+   * 
+   * Open intents are cancelled with their provider so they can no longer be paid.
+   * Provider failures are logged and do not block voiding the local record.
+   */
+  async voidPendingPayments(client: PoolClient, orderId: string) {
+    const pendingResult = await client.query(
+      "SELECT * FROM payments WHERE order_id = $1 AND status = 'pending' FOR UPDATE",
+      [orderId]
+    );
+
+    for (const payment of pendingResult.rows) {
+      if (payment.payment_intent_id) {
+        try {
+          await providerFor(payment).cancelIntent(payment.payment_intent_id);
+        } catch (error) {
+          console.error("Failed to cancel payment intent", { paymentId: payment.id, error });
+        }
+      }
 
-    if (payment.status !== "succeeded") {
-      throw new Error("Only succeeded payments can be refunded");
+      await client.query(
+        "UPDATE payments SET status = 'voided', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
+        [payment.id]
+      );
     }
 
-    // Create refund in Stripe
-    const refund = await stripe.refunds.create({
-      payment_intent: payment.payment_intent_id,
-    });
+    return pendingResult.rows.length;
+  },
 
-    // Update payment status
-    await query(
-      `UPDATE payments 
-       SET status = 'refunded', updated_at = CURRENT_TIMESTAMP
-       WHERE id = $1`,
+  // Get refunds recorded against a payment
+  async getRefundsByPaymentId(paymentId: string): Promise<Refund[]> {
+    const result = await query(
+      "SELECT * FROM refunds WHERE payment_id = $1 ORDER BY created_at DESC",
       [paymentId]
     );
+    return result.rows;
+  },
 
-    // Update order payment status
-    await query(
-      "UPDATE orders SET payment_status = 'refunded', updated_at = CURRENT_TIMESTAMP WHERE id = $1",
-      [payment.order_id]
-    );
+  /**
+   * Verify a provider webhook signature and parse the event
+   * 
+   * @param providerName - Provider the webhook was sent by (defaults to PAYMENT_PROVIDER)
+   * @param payload - Raw request body exactly as received (not re-serialized JSON)
+   * @param signature - Value of the provider's signature header
+   * @returns Normalized provider event, tagged with the provider that verified it
+   * @throws Error if the provider does not support webhooks or the signature does not match
+   * 
+   * Verification is done locally with the signing secret, so locally signed payloads
+   * (stripe.webhooks.generateTestHeaderString() or signFakeWebhookPayload()) work offline.
+   */
+  constructWebhookEvent(
+    providerName: string | undefined,
+    payload: Buffer | string,
+    signature: string
+  ): VerifiedProviderEvent {
+    const provider = getPaymentProvider(providerName || getDefaultProviderName());
+    return { ...provider.parseWebhook(payload, signature), provider: provider.name };
+  },
 
-    return { message: "Payment refunded successfully", refundId: refund.id };
+  /**
+   * Signature header name used by a provider's webhooks
+   */
+  getWebhookSignatureHeader(providerName?: string): string | null {
+    return getPaymentProvider(providerName || getDefaultProviderName()).webhookSignatureHeader;
   },
-};
 
+  /**
+   * Apply a verified provider event to payments and orders
+   * 
+   * @param event - Event returned by constructWebhookEvent
+   * @returns Whether the event was new and whether its type is handled
+   * 
+   * The event id is recorded in payment_events within the same transaction as the
+   * state changes, so a redelivered event is acknowledged without being applied twice
+   * and a failed event is rolled back and left for the provider to retry.
+   * Only payments taken by the provider that verified the event are updated.
+   */
+  async handleWebhookEvent(event: VerifiedProviderEvent): Promise<WebhookResult> {
+    return withTransaction(async (client) => {
+      const inserted = await client.query(
+        `INSERT INTO payment_events (id, type, payload)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING id`,
+        [event.id, event.providerType, JSON.stringify(event.raw)]
+      );
+
+      if (inserted.rows.length === 0) {
+        return { eventId: event.id, type: event.providerType, duplicate: true, handled: false };
+      }
+
+      const paymentIntentId = event.paymentIntentId;
+      if (!paymentIntentId || event.type === "unknown") {
+        return { eventId: event.id, type: event.providerType, duplicate: false, handled: false };
+      }
+
+      switch (event.type) {
+        case "payment_succeeded":
+          await applyIntentStatus(client, event.provider, paymentIntentId, "succeeded", event.transactionId || paymentIntentId);
+          break;
+
+        case "payment_failed":
+          await applyIntentStatus(client, event.provider, paymentIntentId, "failed", null);
+          await mergePaymentMetadata(client, event.provider, paymentIntentId, {
+            lastPaymentError: event.errorMessage || null,
+          });
+          break;
+
+        case "refunded": {
+          // Refunds issued outside the API (e.g. the provider dashboard) still update status
+          const payment = await mergePaymentMetadata(
+            client,
+            event.provider,
+            paymentIntentId,
+            { amountRefunded: event.amountRefunded },
+            event.fullyRefunded ? "refunded" : "partially_refunded"
+          );
+          if (payment) {
+            await reconcileRefunds(client, payment.id, event);
+            await syncOrderRefundStatus(client, payment.order_id);
+          }
+          break;
+        }
+
+        case "dispute_opened":
+        case "dispute_updated":
+        case "dispute_closed": {
+          // Open disputes freeze the payment; a lost dispute means the funds were returned,
+          // a won one puts the payment back to the status it had before the dispute
+          const currentResult = await client.query(
+            "SELECT status, metadata FROM payments WHERE payment_intent_id = $1 AND provider = $2 FOR UPDATE",
+            [paymentIntentId, event.provider]
+          );
+          const current = currentResult.rows[0];
+          if (!current) {
+            break;
+          }
+
+          let previousStatus: string | undefined = current.metadata?.dispute?.previousStatus;
+          let status: string | undefined;
+          if (event.type === "dispute_opened") {
+            previousStatus = current.status === "disputed" ? previousStatus : current.status;
+            status = "disputed";
+          } else if (event.type === "dispute_closed") {
+            status = event.dispute?.outcome === "lost" ? "refunded" : previousStatus || "succeeded";
+          }
+
+          const payment = await mergePaymentMetadata(
+            client,
+            event.provider,
+            paymentIntentId,
+            { dispute: { ...event.dispute, previousStatus } },
+            status
+          );
+          if (payment) {
+            await syncOrderRefundStatus(client, payment.order_id, status === "refunded");
+          }
+          break;
+        }
+      }
+
+      return { eventId: event.id, type: event.providerType, duplicate: false, handled: true };
+    });
+  },
+};
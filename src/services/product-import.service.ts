@@ -0,0 +1,534 @@
+/**
+ * Product Import / Export Service
+ * 
+ * Bulk catalog loading from CSV or JSON files, matched by SKU: a row whose SKU
+ * exists updates that product (only the columns present in the row), any
+ * other row creates a product. Every row is validated with createProductSchema:
+ * - A dry run returns the per-row report without writing anything
+ * - Otherwise the valid rows are stored in a product_import_jobs row and
+ *   applied in the background; the job records progress and row failures
+ * 
+ * CSV files start with a header row using the export's column names; list
+ * columns (images, tags) separate values with "|". JSON files are an array of
+ * products (export column names or the API's camelCase names). The export
+ * streams the whole catalog in the same format, so it can be edited and
+ * imported again.
+ */
+
+import { Writable } from "stream";
+import { DatabaseError } from "pg";
+import { query } from "../config/database";
+import { clearCache } from "../middleware/cache";
+import { productService, createProductSchema, updateProductSchema } from "./product.service";
+import { z } from "zod";
+
+const IMPORT_MAX_ROWS = parseInt(process.env.PRODUCT_IMPORT_MAX_ROWS || "5000");
+const EXPORT_BATCH_SIZE = 500;
+// Job progress is written after this many rows
+const PROGRESS_INTERVAL = 50;
+
+export const IMPORT_FORMATS = ["csv", "json"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const importQuerySchema = z.object({
+  format: z.enum(IMPORT_FORMATS).optional(),
+  dryRun: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+});
+
+export const exportQuerySchema = z.object({
+  format: z.enum(IMPORT_FORMATS).default("csv"),
+});
+
+/**
+ * Export columns, in order, and the createProductSchema field each maps to
+ */
+const COLUMNS = [
+  { column: "sku", field: "sku", kind: "text" },
+  { column: "name", field: "name", kind: "text" },
+  { column: "description", field: "description", kind: "text" },
+  { column: "price", field: "price", kind: "number" },
+  { column: "compare_at_price", field: "compareAtPrice", kind: "number" },
+  { column: "stock_quantity", field: "stockQuantity", kind: "number" },
+  { column: "reorder_threshold", field: "reorderThreshold", kind: "number" },
+  { column: "reorder_quantity", field: "reorderQuantity", kind: "number" },
+  { column: "image_url", field: "imageUrl", kind: "text" },
+  { column: "images", field: "images", kind: "list" },
+  { column: "category", field: "category", kind: "text" },
+  { column: "tags", field: "tags", kind: "list" },
+  { column: "is_active", field: "isActive", kind: "boolean" },
+] as const;
+
+const LIST_SEPARATOR = "|";
+
+export interface ImportRowError {
+  row: number;
+  sku: string | null;
+  errors: Array<{ path: string; message: string }>;
+}
+
+interface ImportRow {
+  row: number;
+  sku: string;
+  data: Record<string, unknown>;
+}
+
+export interface ImportReport {
+  total: number;
+  valid: number;
+  invalid: number;
+  creates: number;
+  updates: number;
+  errors: ImportRowError[];
+}
+
+export type ImportJobStatus = "pending" | "running" | "completed" | "failed";
+
+export interface ProductImportJob {
+  id: string;
+  status: ImportJobStatus;
+  format: ImportFormat;
+  total_rows: number;
+  processed_rows: number;
+  created_count: number;
+  updated_count: number;
+  failed_count: number;
+  errors: ImportRowError[];
+  error_message: string | null;
+  created_by: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date | null;
+}
+
+// Everything but the stored rows payload and the row errors
+const JOB_SUMMARY_COLUMNS = `id, status, format, total_rows, processed_rows, created_count, updated_count, failed_count,
+  error_message, created_by, created_at, started_at, completed_at`;
+const JOB_COLUMNS = `${JOB_SUMMARY_COLUMNS}, errors`;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes)
+ * 
+ * @returns Records as arrays of fields
+ */
+const parseCsv = (text: string) => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("Invalid CSV: unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Drop blank lines
+  return records.filter((fields) => fields.some((value) => value.trim() !== ""));
+};
+
+const csvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const text = Array.isArray(value) ? value.join(LIST_SEPARATOR) : String(value);
+  return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Read the raw rows of an uploaded file
+ * 
+ * @throws Error if the file cannot be parsed or has too many rows
+ */
+const readRows = (body: string, format: ImportFormat): Array<Record<string, unknown>> => {
+  let rows: Array<Record<string, unknown>>;
+
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      throw new Error("Invalid JSON file");
+    }
+    const products = Array.isArray(parsed) ? parsed : (parsed as { products?: unknown })?.products;
+    if (!Array.isArray(products) || products.some((row) => typeof row !== "object" || row === null)) {
+      throw new Error("JSON import must be an array of products or { products: [...] }");
+    }
+    rows = products;
+  } else {
+    const [header, ...records] = parseCsv(body);
+    if (!header) {
+      throw new Error("CSV file is empty");
+    }
+    const columns = header.map((name) => name.trim());
+    rows = records.map((fields) =>
+      Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? ""]))
+    );
+  }
+
+  if (rows.length === 0) {
+    throw new Error("The file contains no products");
+  }
+  if (rows.length > IMPORT_MAX_ROWS) {
+    throw new Error(`Too many rows: at most ${IMPORT_MAX_ROWS} products per import`);
+  }
+  return rows;
+};
+
+/**
+ * Map a raw row onto createProductSchema fields
+ * Empty CSV cells and JSON nulls are left out so updates keep the product's
+ * current value. Values that cannot be converted are passed through for the
+ * schema to reject.
+ */
+const normalizeRow = (raw: Record<string, unknown>, format: ImportFormat) => {
+  const data: Record<string, unknown> = {};
+
+  for (const { column, field, kind } of COLUMNS) {
+    const value = raw[column] !== undefined ? raw[column] : raw[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (format === "json" || typeof value !== "string") {
+      data[field] = value;
+      continue;
+    }
+
+    const text = value.trim();
+    if (text === "") {
+      continue;
+    }
+    if (kind === "number") {
+      data[field] = Number.isNaN(Number(text)) ? text : Number(text);
+    } else if (kind === "list") {
+      data[field] = text
+        .split(LIST_SEPARATOR)
+        .map((item) => item.trim())
+        .filter(Boolean);
+    } else if (kind === "boolean") {
+      const flag = text.toLowerCase();
+      data[field] = ["true", "1", "yes"].includes(flag) ? true : ["false", "0", "no"].includes(flag) ? false : text;
+    } else {
+      data[field] = text;
+    }
+  }
+
+  return data;
+};
+
+/**
+ * Validate every row and work out whether it creates or updates a product
+ */
+const validateRows = async (rawRows: Array<Record<string, unknown>>, format: ImportFormat) => {
+  const errors: ImportRowError[] = [];
+  const validRows: ImportRow[] = [];
+  const firstRowBySku = new Map<string, number>();
+
+  const rows = rawRows.map((raw, index) => ({ row: index + 1, data: normalizeRow(raw, format) }));
+  const skus = rows.map((row) => row.data.sku).filter((sku): sku is string => typeof sku === "string");
+  const existing = await query("SELECT sku, deleted_at FROM products WHERE sku = ANY($1)", [skus]);
+  const existingSkus = new Set<string>(existing.rows.map((row) => row.sku));
+  const archivedSkus = new Set<string>(existing.rows.filter((row) => row.deleted_at).map((row) => row.sku));
+
+  let creates = 0;
+  let updates = 0;
+
+  for (const { row, data } of rows) {
+    const sku = typeof data.sku === "string" ? data.sku : null;
+    const rowErrors: ImportRowError["errors"] = [];
+
+    if (!sku) {
+      rowErrors.push({ path: "sku", message: "SKU is required to match products" });
+    } else if (archivedSkus.has(sku)) {
+      rowErrors.push({ path: "sku", message: "SKU belongs to an archived product; restore it first" });
+    } else if (firstRowBySku.has(sku)) {
+      rowErrors.push({ path: "sku", message: `Duplicate SKU (also on row ${firstRowBySku.get(sku)})` });
+    } else {
+      firstRowBySku.set(sku, row);
+    }
+
+    const result = createProductSchema.safeParse(data);
+    if (!result.success) {
+      rowErrors.push(
+        ...result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message }))
+      );
+    }
+
+    if (rowErrors.length > 0) {
+      errors.push({ row, sku, errors: rowErrors });
+      continue;
+    }
+
+    validRows.push({ row, sku: sku!, data });
+    if (existingSkus.has(sku!)) {
+      updates++;
+    } else {
+      creates++;
+    }
+  }
+
+  const report: ImportReport = {
+    total: rows.length,
+    valid: validRows.length,
+    invalid: errors.length,
+    creates,
+    updates,
+    errors,
+  };
+  return { report, validRows };
+};
+
+export const productImportService = {
+  /**
+   * Validate an uploaded file and, unless it is a dry run, queue an import job
+   * 
+   * @param format - File format (csv or json)
+   * @param dryRun - Only return the validation report
+   * @returns `{ report }` for a dry run, or `{ report, job }` with the queued job
+   * @throws Error if the file cannot be parsed, or no row is valid
+   */
+  async startImport(body: string, format: ImportFormat, dryRun: boolean, actorId?: string) {
+    const { report, validRows } = await validateRows(readRows(body, format), format);
+    if (dryRun) {
+      return { report };
+    }
+    if (validRows.length === 0) {
+      throw new Error("No valid rows to import");
+    }
+
+    const result = await query(
+      `INSERT INTO product_import_jobs (format, rows, total_rows, errors, failed_count, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${JOB_COLUMNS}`,
+      [format, JSON.stringify(validRows), report.total, JSON.stringify(report.errors), report.invalid, actorId || null]
+    );
+    const job: ProductImportJob = result.rows[0];
+
+    // Apply in the background; the client polls the job for progress
+    setImmediate(() => {
+      this.runJob(job.id).catch((error) => console.error(`Product import job ${job.id} failed:`, error));
+    });
+
+    return { report, job };
+  },
+
+  /**
+   * Apply a pending import job's rows
+   * Each row is applied on its own, so one failing row does not undo the others.
+   * Stock changes are recorded in the inventory ledger as made by the job's creator.
+   */
+  async runJob(jobId: string) {
+    // Claim the job so it is only run once
+    const claimed = await query(
+      `UPDATE product_import_jobs SET status = 'running', started_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND status = 'pending'
+       RETURNING rows, errors, created_by`,
+      [jobId]
+    );
+    if (claimed.rows.length === 0) {
+      return;
+    }
+
+    const rows: ImportRow[] = claimed.rows[0].rows;
+    const errors: ImportRowError[] = claimed.rows[0].errors;
+    const actorId: string | undefined = claimed.rows[0].created_by || undefined;
+    // Invalid rows were already counted as processed at validation time
+    let processed = errors.length;
+    let created = 0;
+    let updated = 0;
+
+    const saveProgress = (status?: ImportJobStatus, errorMessage?: string) =>
+      query(
+        `UPDATE product_import_jobs
+         SET processed_rows = $2, created_count = $3, updated_count = $4, failed_count = $5, errors = $6,
+             status = COALESCE($7, status), error_message = COALESCE($8, error_message),
+             completed_at = CASE WHEN $7 IS NULL THEN completed_at ELSE CURRENT_TIMESTAMP END
+         WHERE id = $1`,
+        [jobId, processed, created, updated, errors.length, JSON.stringify(errors), status || null, errorMessage || null]
+      );
+
+    try {
+      for (const row of rows) {
+        try {
+          const existing = await query("SELECT id, stock_quantity, deleted_at FROM products WHERE sku = $1", [row.sku]);
+          if (existing.rows[0]?.deleted_at) {
+            throw new Error("SKU belongs to an archived product; restore it first");
+          }
+          if (existing.rows.length > 0) {
+            const data = updateProductSchema.parse(row.data);
+            // Unchanged stock is left out, so exported products with variants can be re-imported
+            if (data.stockQuantity === existing.rows[0].stock_quantity) {
+              delete data.stockQuantity;
+            }
+            await productService.update(existing.rows[0].id, data, actorId);
+            updated++;
+          } else {
+            await productService.create(createProductSchema.parse(row.data), actorId);
+            created++;
+          }
+        } catch (error: unknown) {
+          let message = error instanceof Error ? error.message : String(error);
+          if (error instanceof DatabaseError && error.code === "23505") {
+            message = "SKU already exists";
+          }
+          errors.push({ row: row.row, sku: row.sku, errors: [{ path: "", message }] });
+        }
+
+        processed++;
+        if (processed % PROGRESS_INTERVAL === 0) {
+          await saveProgress();
+        }
+      }
+
+      await saveProgress("completed");
+    } catch (error: unknown) {
+      await saveProgress("failed", error instanceof Error ? error.message : String(error));
+      throw error;
+    } finally {
+      clearCache("/api/products");
+    }
+  },
+
+  /**
+   * Pick up import jobs left behind by a restart (called once at startup)
+   * Pending jobs are run; running jobs were cut off part-way and are marked failed,
+   * since their rows may be half applied.
+   * 
+   * @returns Number of jobs resumed and failed
+   */
+  async recoverJobs() {
+    const failed = await query(
+      `UPDATE product_import_jobs
+       SET status = 'failed', error_message = 'Interrupted by a server restart', completed_at = CURRENT_TIMESTAMP
+       WHERE status = 'running'`
+    );
+    const pending = await query("SELECT id FROM product_import_jobs WHERE status = 'pending' ORDER BY created_at");
+    for (const job of pending.rows) {
+      await this.runJob(job.id);
+    }
+    return { resumed: pending.rows.length, failed: failed.rowCount || 0 };
+  },
+
+  async getJob(jobId: string): Promise<ProductImportJob | null> {
+    const result = await query(`SELECT ${JOB_COLUMNS} FROM product_import_jobs WHERE id = $1`, [jobId]);
+    return result.rows.length > 0 ? result.rows[0] : null;
+  },
+
+  /**
+   * Recent import jobs, newest first (without their row errors)
+   */
+  async getJobs(limit = 20) {
+    const result = await query(
+      `SELECT ${JOB_SUMMARY_COLUMNS} FROM product_import_jobs ORDER BY created_at DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows;
+  },
+
+  /**
+   * Stream the whole catalog (active and inactive products, not archived ones) as CSV or JSON
+   * Products are read in batches by id, so memory use does not grow with the catalog.
+   * Stops early if the output is closed (e.g. the client disconnects).
+   */
+  async exportCatalog(format: ImportFormat, output: Writable) {
+    // Resolves false once the output is gone; a closed stream never emits drain
+    const write = async (chunk: string) => {
+      if (output.destroyed) {
+        return false;
+      }
+      if (!output.write(chunk)) {
+        await new Promise<void>((resolve) => {
+          const done = () => {
+            output.off("drain", done);
+            output.off("close", done);
+            output.off("error", done);
+            resolve();
+          };
+          output.on("drain", done);
+          output.on("close", done);
+          output.on("error", done);
+        });
+      }
+      return !output.destroyed;
+    };
+    const columnList = COLUMNS.map(({ column }) => column);
+
+    if (!(await write(format === "csv" ? `${columnList.join(",")}\n` : "["))) {
+      return;
+    }
+
+    let lastId: string | null = null;
+    let first = true;
+    for (;;) {
+      const batch = await query(
+        `SELECT id, ${columnList.join(", ")} FROM products
+         WHERE deleted_at IS NULL${lastId ? " AND id > $2" : ""}
+         ORDER BY id
+         LIMIT $1`,
+        lastId ? [EXPORT_BATCH_SIZE, lastId] : [EXPORT_BATCH_SIZE]
+      );
+
+      for (const product of batch.rows) {
+        if (format === "csv") {
+          if (!(await write(`${columnList.map((column) => csvValue(product[column])).join(",")}\n`))) {
+            return;
+          }
+        } else {
+          const row = Object.fromEntries(columnList.map((column) => [column, product[column]]));
+          // DECIMAL columns come back as strings
+          row.price = product.price === null ? null : Number(product.price);
+          row.compare_at_price = product.compare_at_price === null ? null : Number(product.compare_at_price);
+          if (!(await write(`${first ? "\n" : ",\n"}${JSON.stringify(row)}`))) {
+            return;
+          }
+        }
+        first = false;
+      }
+
+      if (batch.rows.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+      lastId = batch.rows[batch.rows.length - 1].id;
+    }
+
+    if (format === "json" && !(await write(first ? "]" : "\n]"))) {
+      return;
+    }
+    output.end();
+  },
+};
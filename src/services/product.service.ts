@@ -6,8 +6,10 @@
  * for the products table.
  */
 
-import { query } from "../config/database";
+import { query, withTransaction } from "../config/database";
 import { z } from "zod";
+import { variantService } from "./variant.service";
+import { adjustStock, heldQuantitySql } from "./inventory.service";
 
 /**
  * Zod validation schema for creating a new product
@@ -20,6 +22,8 @@ export const createProductSchema = z.object({
   compareAtPrice: z.number().positive().optional(),
   sku: z.string().optional(),
   stockQuantity: z.number().int().min(0).default(0),
+  reorderThreshold: z.number().int().min(0).default(10),
+  reorderQuantity: z.number().int().positive().nullable().optional(),
   imageUrl: z.string().url().optional(),
   images: z.array(z.string().url()).optional(),
   category: z.string().optional(),
@@ -27,6 +31,63 @@ export const createProductSchema = z.object({
   isActive: z.boolean().default(true),
 });
 
+/**
+ * Zod validation schema for product search query parameters
+ * Query string values are coerced to numbers where needed.
+ */
+export const searchProductsSchema = z
+  .object({
+    q: z.string().trim().min(1, "Search query is required").max(200),
+    category: z.string().optional(),
+    tag: z.string().optional(),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    offset: z.coerce.number().int().min(0).default(0),
+  })
+  .refine((data) => data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice, {
+    message: "minPrice must not exceed maxPrice",
+  });
+
+/**
+ * Sort orders for product listings
+ */
+export const PRODUCT_SORTS = ["newest", "price_asc", "price_desc", "name_asc", "name_desc", "popularity"] as const;
+
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+// Comma-separated query string values, e.g. category=shoes,bags
+const commaList = z.string().transform((value) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean)
+);
+
+const booleanFlag = z.enum(["true", "false"]).transform((value) => value === "true");
+
+/**
+ * Zod validation schema for product listing query parameters
+ */
+export const listProductsSchema = z
+  .object({
+    category: commaList.optional(),
+    tag: commaList.optional(),
+    isActive: booleanFlag.optional(),
+    search: z.string().trim().min(1).max(200).optional(),
+    minPrice: z.coerce.number().min(0).optional(),
+    maxPrice: z.coerce.number().min(0).optional(),
+    inStock: booleanFlag.optional(),
+    onSale: booleanFlag.optional(),
+    sort: z.enum(PRODUCT_SORTS).default("newest"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    page: z.coerce.number().int().min(1).default(1),
+    cursor: z.string().optional(),
+  })
+  .refine((data) => data.minPrice === undefined || data.maxPrice === undefined || data.minPrice <= data.maxPrice, {
+    message: "minPrice must not exceed maxPrice",
+  });
+
 /**
  * Zod validation schema for updating a product
  * All fields are optional (partial update)
@@ -45,15 +106,74 @@ export interface Product {
   compare_at_price: number | null;
   sku: string | null;
   stock_quantity: number;
+  reorder_threshold: number;
+  reorder_quantity: number | null;
   image_url: string | null;
   images: string[] | null;
   category: string | null;
   tags: string[] | null;
   is_active: boolean;
+  deleted_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * SQL sort key, its Postgres type (for cursor comparison) and direction per sort order
+ * Ties are broken by product id in the same direction.
+ */
+const PRODUCT_SORT_KEYS: Record<ProductSort, { expression: string; type: string; direction: "ASC" | "DESC" }> = {
+  newest: { expression: "p.created_at", type: "timestamp", direction: "DESC" },
+  price_asc: { expression: "p.price", type: "numeric", direction: "ASC" },
+  price_desc: { expression: "p.price", type: "numeric", direction: "DESC" },
+  name_asc: { expression: "LOWER(p.name)", type: "text", direction: "ASC" },
+  name_desc: { expression: "LOWER(p.name)", type: "text", direction: "DESC" },
+  popularity: { expression: "COALESCE(s.units_sold, 0)", type: "numeric", direction: "DESC" },
+};
+
+/**
+ * Cursors are opaque base64url JSON holding the last row's sort value and id
+ * The sort value is kept as Postgres text so timestamps round-trip exactly.
+ */
+const encodeCursor = (position: { value: string; id: string }, sort: ProductSort) =>
+  Buffer.from(JSON.stringify({ ...position, sort })).toString("base64url");
+
+const decodeCursor = (cursor: string, sort: ProductSort) => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (decoded.sort === sort && typeof decoded.value === "string" && typeof decoded.id === "string") {
+      return { value: decoded.value as string, id: decoded.id as string };
+    }
+  } catch (error) {
+    // Fall through to the error below
+  }
+  throw new Error("Invalid cursor");
+};
+
+/**
+ * Upper bounds of the price facet buckets; the last bucket is open-ended
+ */
+const PRICE_BUCKETS = [25, 50, 100, 250, 500];
+
+/**
+ * SQL condition matching products against a search term bound as `$n`
+ * 
+ * Full-text match on the weighted document built by product_search_vector()
+ * (name, tags, category, description), or a trigram word similarity on the
+ * name so that misspelled terms ("headphnes") still find results. Both are
+ * backed by GIN indexes (see schema.sql).
+ */
+const SEARCH_VECTOR = "product_search_vector(name, description, tags, category)";
+
+const searchCondition = (param: number) =>
+  `(${SEARCH_VECTOR} @@ websearch_to_tsquery('english', $${param}) OR $${param} <% name)`;
+
+/**
+ * Relevance of a product for a search term bound as `$n`: text rank plus name similarity
+ */
+const searchRank = (param: number) =>
+  `(ts_rank(${SEARCH_VECTOR}, websearch_to_tsquery('english', $${param})) + word_similarity($${param}, name))`;
+
 /**
  * Product Service Object
  * Contains all product-related database operations
@@ -63,109 +183,279 @@ export const productService = {
    * Create a new product
    * 
    * @param data - Validated product data from createProductSchema
+   * @param actorId - Staff member creating the product (recorded with the initial stock)
    * @returns Created product object
    * 
    * Inserts a new product record into the database with all provided fields.
    * Handles optional fields by converting undefined to null for database compatibility.
+   * Initial stock is recorded in the inventory ledger as a restock.
    */
-  async create(data: z.infer<typeof createProductSchema>) {
-    const result = await query(
-      `INSERT INTO products (
-        name, description, price, compare_at_price, sku, stock_quantity,
-        image_url, images, category, tags, is_active
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-      RETURNING *`,
-      [
-        data.name,
-        data.description || null,
-        data.price,
-        data.compareAtPrice || null,
-        data.sku || null,
-        data.stockQuantity,
-        data.imageUrl || null,
-        data.images || null,
-        data.category || null,
-        data.tags || null,
-        data.isActive,
-      ]
-    );
+  async create(data: z.infer<typeof createProductSchema>, actorId?: string) {
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO products (
+          name, description, price, compare_at_price, sku, stock_quantity,
+          reorder_threshold, reorder_quantity, image_url, images, category, tags, is_active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *`,
+        [
+          data.name,
+          data.description || null,
+          data.price,
+          data.compareAtPrice || null,
+          data.sku || null,
+          0,
+          data.reorderThreshold,
+          data.reorderQuantity || null,
+          data.imageUrl || null,
+          data.images || null,
+          data.category || null,
+          data.tags || null,
+          data.isActive,
+        ]
+      );
 
-    return result.rows[0];
+      const product = result.rows[0];
+      const movement = await adjustStock(client, product.id, null, data.stockQuantity, {
+        type: "restock",
+        reason: "Initial stock",
+        actorId,
+      });
+      return movement ? { ...product, stock_quantity: movement.balance_after } : product;
+    });
   },
 
   /**
-   * Get all products with optional filtering and pagination
+   * List products with filters, sorting and pagination
    * 
-   * @param filters - Optional filters for category, active status, search, limit, offset
-   * @returns Array of product objects
+   * @param filters - Validated listing parameters from listProductsSchema
+   * @returns `{ items, total, page, limit, nextCursor }`
+   * @throws Error if the cursor is malformed or was issued for another sort
    * 
    * Builds a dynamic SQL query based on provided filters:
-   * - category: Exact match on category field
+   * - category / tag: Match any of the given categories or tags
    * - isActive: Filter by active status
-   * - search: Case-insensitive search in name and description (ILIKE)
-   * - limit: Maximum number of results (pagination)
-   * - offset: Skip N results (pagination)
+   * - search: Full-text search in name, tags, category and description, tolerant of typos in the name
+   * - minPrice / maxPrice: Price range
+   * - inStock: Only products with stock left
+   * - onSale: Only products priced below their compare-at price
    * 
-   * Results are ordered by creation date (newest first).
+   * Pages are addressed either by `page` (offset pagination) or by the
+   * `nextCursor` of the previous page (keyset pagination, stable while products
+   * are added). `total` always counts every matching product.
    */
-  async getAll(filters?: {
-    category?: string;
-    isActive?: boolean;
-    search?: string;
-    limit?: number;
-    offset?: number;
-  }) {
-    // Start with base query (WHERE 1=1 allows easy addition of AND clauses)
-    let sql = "SELECT * FROM products WHERE 1=1";
+  async getAll(filters: z.infer<typeof listProductsSchema>) {
+    // Archived products are never listed
+    const conditions: string[] = ["p.deleted_at IS NULL"];
     const params: any[] = [];
-    let paramCount = 1;
 
     // Add category filter if provided
-    if (filters?.category) {
-      sql += ` AND category = $${paramCount++}`;
+    if (filters.category && filters.category.length > 0) {
       params.push(filters.category);
+      conditions.push(`p.category = ANY($${params.length})`);
+    }
+
+    // Add tag filter if provided (products with any of the tags)
+    if (filters.tag && filters.tag.length > 0) {
+      params.push(filters.tag);
+      conditions.push(`p.tags && $${params.length}::text[]`);
     }
 
     // Add active status filter if provided
-    if (filters?.isActive !== undefined) {
-      sql += ` AND is_active = $${paramCount++}`;
+    if (filters.isActive !== undefined) {
       params.push(filters.isActive);
+      conditions.push(`p.is_active = $${params.length}`);
+    }
+
+    // Add search filter (full-text and trigram match, see searchCondition)
+    if (filters.search) {
+      params.push(filters.search);
+      conditions.push(searchCondition(params.length));
+    }
+
+    if (filters.minPrice !== undefined) {
+      params.push(filters.minPrice);
+      conditions.push(`p.price >= $${params.length}`);
+    }
+    if (filters.maxPrice !== undefined) {
+      params.push(filters.maxPrice);
+      conditions.push(`p.price <= $${params.length}`);
+    }
+    if (filters.inStock) {
+      conditions.push("p.stock_quantity > 0");
+    }
+    if (filters.onSale) {
+      conditions.push("p.compare_at_price > p.price");
     }
 
-    // Add search filter (case-insensitive search in name and description)
-    if (filters?.search) {
-      sql += ` AND (name ILIKE $${paramCount} OR description ILIKE $${paramCount})`;
-      params.push(`%${filters.search}%`); // % wildcards for partial matching
-      paramCount++;
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const countResult = await query(`SELECT COUNT(*)::int AS total FROM products p ${where}`, params);
+
+    const sortKey = PRODUCT_SORT_KEYS[filters.sort];
+    const listParams = [...params];
+    const listConditions = [...conditions];
+
+    // Keyset pagination: continue after the (sort value, id) of the previous page's last row
+    if (filters.cursor) {
+      const cursor = decodeCursor(filters.cursor, filters.sort);
+      listParams.push(cursor.value, cursor.id);
+      const operator = sortKey.direction === "DESC" ? "<" : ">";
+      listConditions.push(
+        `(${sortKey.expression}, p.id) ${operator} ($${listParams.length - 1}::${sortKey.type}, $${listParams.length}::uuid)`
+      );
     }
 
-    // Order by creation date (newest first)
-    sql += " ORDER BY created_at DESC";
+    // Units sold in orders that were not cancelled
+    const popularityJoin =
+      filters.sort === "popularity"
+        ? `LEFT JOIN (
+             SELECT oi.product_id, SUM(oi.quantity) AS units_sold
+             FROM order_items oi
+             JOIN orders o ON o.id = oi.order_id
+             WHERE o.status != 'cancelled'
+             GROUP BY oi.product_id
+           ) s ON s.product_id = p.id`
+        : "";
 
-    // Add pagination limit if provided
-    if (filters?.limit) {
-      sql += ` LIMIT $${paramCount++}`;
-      params.push(filters.limit);
+    // Fetch one extra row to know whether there is a next page
+    listParams.push(filters.limit + 1);
+    let sql = `SELECT p.*, (${sortKey.expression})::text AS sort_value
+       FROM products p
+       ${popularityJoin}
+       ${listConditions.length > 0 ? `WHERE ${listConditions.join(" AND ")}` : ""}
+       ORDER BY ${sortKey.expression} ${sortKey.direction}, p.id ${sortKey.direction}
+       LIMIT $${listParams.length}`;
+    if (!filters.cursor) {
+      listParams.push((filters.page - 1) * filters.limit);
+      sql += ` OFFSET $${listParams.length}`;
     }
 
-    // Add pagination offset if provided
-    if (filters?.offset) {
-      sql += ` OFFSET $${paramCount++}`;
-      params.push(filters.offset);
+    const result = await query(sql, listParams);
+    const rows = result.rows.slice(0, filters.limit);
+    const last = rows[rows.length - 1];
+    const nextCursor =
+      result.rows.length > filters.limit ? encodeCursor({ value: last.sort_value, id: last.id }, filters.sort) : null;
+
+    const items = rows.map((row) => {
+      const product = { ...row };
+      delete product.sort_value;
+      return product;
+    });
+
+    return {
+      items,
+      total: countResult.rows[0].total,
+      page: filters.cursor ? null : filters.page,
+      limit: filters.limit,
+      nextCursor,
+    };
+  },
+
+  /**
+   * Search active products, ranked by relevance, with facets
+   * 
+   * @param params - Validated search parameters from searchProductsSchema
+   * @returns Ranked page of products (each with a `relevance` score), the total
+   * number of matches, and facets for the whole match set
+   * 
+   * Facets count the matching products per category, per tag and per price
+   * bucket (see PRICE_BUCKETS). They are computed with all filters applied, so
+   * they always add up to `total`.
+   */
+  async search(params: z.infer<typeof searchProductsSchema>) {
+    const conditions = ["is_active = true", "deleted_at IS NULL", searchCondition(1)];
+    const values: Array<string | number> = [params.q];
+
+    if (params.category) {
+      values.push(params.category);
+      conditions.push(`category = $${values.length}`);
+    }
+    if (params.tag) {
+      values.push(params.tag);
+      conditions.push(`$${values.length} = ANY(tags)`);
+    }
+    if (params.minPrice !== undefined) {
+      values.push(params.minPrice);
+      conditions.push(`price >= $${values.length}`);
+    }
+    if (params.maxPrice !== undefined) {
+      values.push(params.maxPrice);
+      conditions.push(`price <= $${values.length}`);
     }
 
-    const result = await query(sql, params);
-    return result.rows;
+    const where = conditions.join(" AND ");
+
+    const [results, categories, tags, prices] = await Promise.all([
+      query(
+        `SELECT *, ${searchRank(1)} AS relevance, COUNT(*) OVER() AS total_count
+         FROM products
+         WHERE ${where}
+         ORDER BY relevance DESC, created_at DESC
+         LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+        [...values, params.limit, params.offset]
+      ),
+      query(
+        `SELECT category AS value, COUNT(*)::int AS count
+         FROM products
+         WHERE ${where} AND category IS NOT NULL
+         GROUP BY category
+         ORDER BY count DESC, category`,
+        values
+      ),
+      query(
+        `SELECT tag AS value, COUNT(*)::int AS count
+         FROM products, unnest(tags) AS tag
+         WHERE ${where}
+         GROUP BY tag
+         ORDER BY count DESC, tag
+         LIMIT 50`,
+        values
+      ),
+      query(
+        `SELECT width_bucket(price, $${values.length + 1}::numeric[]) AS bucket, COUNT(*)::int AS count
+         FROM products
+         WHERE ${where}
+         GROUP BY bucket`,
+        [...values, PRICE_BUCKETS]
+      ),
+    ]);
+
+    // width_bucket returns 0 below the first bound and PRICE_BUCKETS.length above the last
+    const priceCounts = new Map<number, number>(prices.rows.map((row) => [row.bucket, row.count]));
+    const priceFacets = [...PRICE_BUCKETS, null].map((max, index) => ({
+      min: index === 0 ? 0 : PRICE_BUCKETS[index - 1],
+      max,
+      count: priceCounts.get(index) || 0,
+    }));
+
+    const total = results.rows.length > 0 ? parseInt(results.rows[0].total_count) : 0;
+    const items = results.rows.map((row) => {
+      const product = { ...row, relevance: parseFloat(row.relevance) };
+      delete product.total_count;
+      return product;
+    });
+
+    return {
+      items,
+      total,
+      limit: params.limit,
+      offset: params.offset,
+      facets: {
+        categories: categories.rows,
+        tags: tags.rows,
+        prices: priceFacets,
+      },
+    };
   },
 
   /**
    * Get a single product by ID
    * 
    * @param id - Product UUID
-   * @returns Product object or null if not found
+   * @returns Product object or null if not found or archived
    */
   async getById(id: string): Promise<Product | null> {
-    const result = await query("SELECT * FROM products WHERE id = $1", [id]);
+    const result = await query("SELECT * FROM products WHERE id = $1 AND deleted_at IS NULL", [id]);
     return result.rows.length > 0 ? result.rows[0] : null;
   },
 
@@ -174,14 +464,17 @@ export const productService = {
    * 
    * @param id - Product UUID to update
    * @param data - Partial product data (only provided fields will be updated)
+   * @param actorId - Staff member making the change (recorded with stock changes)
    * @returns Updated product object
-   * @throws Error if no fields provided to update
+   * @throws Error if no fields provided to update, stock is set on a product with variants,
+   * or stock is set below the units held for pending orders
    * 
    * Dynamically builds UPDATE query based on provided fields.
    * Only updates fields that are explicitly provided (partial update).
    * This allows flexible updates without requiring all fields.
+   * A new stockQuantity is recorded in the inventory ledger as an adjustment of the difference.
    */
-  async update(id: string, data: z.infer<typeof updateProductSchema>) {
+  async update(id: string, data: z.infer<typeof updateProductSchema>, actorId?: string) {
     const updates: string[] = [];
     const values: any[] = [];
     let paramCount = 1;
@@ -208,8 +501,17 @@ export const productService = {
       values.push(data.sku);
     }
     if (data.stockQuantity !== undefined) {
-      updates.push(`stock_quantity = $${paramCount++}`);
-      values.push(data.stockQuantity);
+      if (await variantService.hasVariants(id)) {
+        throw new Error("Stock of a product with variants is managed per variant");
+      }
+    }
+    if (data.reorderThreshold !== undefined) {
+      updates.push(`reorder_threshold = $${paramCount++}`);
+      values.push(data.reorderThreshold);
+    }
+    if (data.reorderQuantity !== undefined) {
+      updates.push(`reorder_quantity = $${paramCount++}`);
+      values.push(data.reorderQuantity);
     }
     if (data.imageUrl !== undefined) {
       updates.push(`image_url = $${paramCount++}`);
@@ -233,34 +535,119 @@ export const productService = {
     }
 
     // Ensure at least one field is being updated
-    if (updates.length === 0) {
+    if (updates.length === 0 && data.stockQuantity === undefined) {
       throw new Error("No fields to update");
     }
 
-    // Add product ID as last parameter for WHERE clause
-    values.push(id);
+    return withTransaction(async (client) => {
+      const current = await client.query(
+        "SELECT stock_quantity FROM products WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+        [id]
+      );
+      if (current.rows.length === 0) {
+        return undefined;
+      }
 
-    // Execute dynamic UPDATE query
-    const result = await query(
-      `UPDATE products SET ${updates.join(", ")} WHERE id = $${paramCount} RETURNING *`,
-      values
-    );
+      if (updates.length > 0) {
+        // Add product ID as last parameter for WHERE clause
+        values.push(id);
+        // Execute dynamic UPDATE query
+        await client.query(`UPDATE products SET ${updates.join(", ")} WHERE id = $${paramCount}`, values);
+      }
 
-    return result.rows[0];
+      // Stock changes go through the inventory ledger
+      if (data.stockQuantity !== undefined) {
+        if (data.stockQuantity < current.rows[0].stock_quantity) {
+          const heldResult = await client.query(`SELECT ${heldQuantitySql("$1::uuid", "NULL::uuid")} AS held`, [id]);
+          if (data.stockQuantity < heldResult.rows[0].held) {
+            throw new Error(`Cannot remove stock held for pending orders (${heldResult.rows[0].held} held)`);
+          }
+        }
+        await adjustStock(client, id, null, data.stockQuantity - current.rows[0].stock_quantity, {
+          type: "adjustment",
+          reason: `Stock set to ${data.stockQuantity}`,
+          actorId,
+        });
+      }
+
+      const result = await client.query("SELECT * FROM products WHERE id = $1", [id]);
+      return result.rows[0];
+    });
   },
 
   /**
-   * Delete a product
+   * Archive (soft delete) a product
    * 
-   * @param id - Product UUID to delete
+   * @param id - Product UUID to archive
    * @returns Success message
+   * @throws Error if the product does not exist or is already archived
    * 
-   * Permanently removes product from database.
-   * Note: Consider soft delete (is_active = false) instead for data retention.
+   * Archived products disappear from listings, search and product pages and
+   * are removed from carts, but past orders keep referencing them. Use
+   * restore to bring one back, or purge to remove it for good.
    */
   async delete(id: string) {
-    await query("DELETE FROM products WHERE id = $1", [id]);
-    return { message: "Product deleted successfully" };
+    return withTransaction(async (client) => {
+      const result = await client.query(
+        "UPDATE products SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL RETURNING id",
+        [id]
+      );
+      if (result.rows.length === 0) {
+        throw new Error("Product not found");
+      }
+      await client.query("DELETE FROM cart WHERE product_id = $1", [id]);
+      return { message: "Product archived successfully" };
+    });
+  },
+
+  /**
+   * Archived products, most recently archived first
+   */
+  async getArchived(): Promise<Product[]> {
+    const result = await query("SELECT * FROM products WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC");
+    return result.rows;
+  },
+
+  /**
+   * Restore an archived product
+   * 
+   * @throws Error if there is no archived product with this ID
+   */
+  async restore(id: string): Promise<Product> {
+    const result = await query(
+      "UPDATE products SET deleted_at = NULL WHERE id = $1 AND deleted_at IS NOT NULL RETURNING *",
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("Archived product not found");
+    }
+    return result.rows[0];
+  },
+
+  /**
+   * Permanently delete an archived product
+   * Its variants, stock ledger and alerts go with it.
+   * 
+   * @throws Error if the product is not archived, or appears in orders
+   */
+  async purge(id: string) {
+    return withTransaction(async (client) => {
+      const product = await client.query(
+        "SELECT id FROM products WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE",
+        [id]
+      );
+      if (product.rows.length === 0) {
+        throw new Error("Archived product not found");
+      }
+
+      const orders = await client.query("SELECT 1 FROM order_items WHERE product_id = $1 LIMIT 1", [id]);
+      if (orders.rows.length > 0) {
+        throw new Error("Product appears in orders and cannot be purged");
+      }
+
+      await client.query("DELETE FROM products WHERE id = $1", [id]);
+      return { message: "Product purged successfully" };
+    });
   },
 };
 
@@ -0,0 +1,186 @@
+import { PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
+import { z } from "zod";
+
+/**
+ * Permission catalogue
+ * Must match the rows seeded into the permissions table in schema.sql.
+ */
+export const PERMISSIONS = [
+  "products:write",
+  "categories:write",
+  "orders:read_all",
+  "orders:update_status",
+  "orders:fulfil",
+  "payments:read_all",
+  "payments:manage",
+  "payments:refund",
+  "coupons:read",
+  "coupons:write",
+  "users:read",
+  "users:write",
+  "roles:manage",
+  "analytics:read",
+  "settings:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Built-in roles: cannot be deleted, and admin always keeps every permission
+const SYSTEM_ROLES = ["customer", "admin"];
+
+export const createRoleSchema = z.object({
+  name: z
+    .string()
+    .min(2)
+    .max(50)
+    .regex(/^[a-z][a-z0-9_]*$/, "Role name must be lowercase letters, numbers and underscores"),
+  description: z.string().optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).default([]),
+});
+
+export const updateRoleSchema = z.object({
+  description: z.string().optional(),
+  permissions: z.array(z.enum(PERMISSIONS)).optional(),
+});
+
+export const assignRoleSchema = z.object({
+  role: z.string().min(1, "Role is required"),
+});
+
+export interface Role {
+  id: string;
+  name: string;
+  description: string | null;
+  is_system: boolean;
+  permissions: Permission[];
+  user_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const ROLE_SELECT = `
+  SELECT r.*,
+         COALESCE(array_agg(p.name ORDER BY p.name) FILTER (WHERE p.name IS NOT NULL), '{}') AS permissions,
+         (SELECT COUNT(*)::int FROM users u WHERE u.role = r.name) AS user_count
+  FROM roles r
+  LEFT JOIN role_permissions rp ON rp.role_id = r.id
+  LEFT JOIN permissions p ON p.id = rp.permission_id`;
+
+export const roleService = {
+  async getAll(): Promise<Role[]> {
+    const result = await query(`${ROLE_SELECT} GROUP BY r.id ORDER BY r.name`);
+    return result.rows;
+  },
+
+  async getById(id: string): Promise<Role | null> {
+    const result = await query(`${ROLE_SELECT} WHERE r.id = $1 GROUP BY r.id`, [id]);
+    return result.rows.length > 0 ? result.rows[0] : null;
+  },
+
+  async getPermissions() {
+    const result = await query("SELECT * FROM permissions ORDER BY name");
+    return result.rows;
+  },
+
+  async create(data: z.infer<typeof createRoleSchema>) {
+    const existing = await query("SELECT id FROM roles WHERE name = $1", [data.name]);
+    if (existing.rows.length > 0) {
+      throw new Error("Role with this name already exists");
+    }
+
+    const roleId = await withTransaction(async (client) => {
+      const result = await client.query("INSERT INTO roles (name, description) VALUES ($1, $2) RETURNING id", [
+        data.name,
+        data.description || null,
+      ]);
+      await client.query(
+        `INSERT INTO role_permissions (role_id, permission_id)
+         SELECT $1, id FROM permissions WHERE name = ANY($2::text[])`,
+        [result.rows[0].id, data.permissions]
+      );
+      return result.rows[0].id;
+    });
+
+    return this.getById(roleId);
+  },
+
+  async update(id: string, data: z.infer<typeof updateRoleSchema>) {
+    const role = await this.getById(id);
+    if (!role) {
+      throw new Error("Role not found");
+    }
+    if (role.name === "admin" && data.permissions !== undefined) {
+      throw new Error("Permissions of the admin role cannot be changed");
+    }
+
+    await withTransaction(async (client) => {
+      if (data.description !== undefined) {
+        await client.query("UPDATE roles SET description = $1 WHERE id = $2", [data.description, id]);
+      }
+      if (data.permissions !== undefined) {
+        // Replace the permission set
+        await client.query("DELETE FROM role_permissions WHERE role_id = $1", [id]);
+        await client.query(
+          `INSERT INTO role_permissions (role_id, permission_id)
+           SELECT $1, id FROM permissions WHERE name = ANY($2::text[])`,
+          [id, data.permissions]
+        );
+      }
+    });
+
+    return this.getById(id);
+  },
+
+  async delete(id: string) {
+    const role = await this.getById(id);
+    if (!role) {
+      throw new Error("Role not found");
+    }
+    if (SYSTEM_ROLES.includes(role.name)) {
+      throw new Error("Built-in roles cannot be deleted");
+    }
+    if (role.user_count > 0) {
+      throw new Error("Role is assigned to users; reassign them first");
+    }
+
+    await query("DELETE FROM roles WHERE id = $1", [id]);
+    return { message: "Role deleted successfully" };
+  },
+
+  /**
+   * Assign a role to a user
+   * Takes effect on the user's next request (authenticate loads the role from the database).
+   * Refuses to demote the last active admin so the store cannot be locked out.
+   */
+  async assignRole(userId: string, roleName: string) {
+    return withTransaction((client) => this.assignRoleWith(client, userId, roleName));
+  },
+
+  // Same as assignRole, inside the caller's transaction
+  async assignRoleWith(client: PoolClient, userId: string, roleName: string) {
+    const roleResult = await client.query("SELECT name FROM roles WHERE name = $1", [roleName]);
+    if (roleResult.rows.length === 0) {
+      throw new Error("Role not found");
+    }
+
+    const userResult = await client.query("SELECT id, role FROM users WHERE id = $1 FOR UPDATE", [userId]);
+    if (userResult.rows.length === 0) {
+      throw new Error("User not found");
+    }
+
+    if (userResult.rows[0].role === "admin" && roleName !== "admin") {
+      // Lock admin rows so two concurrent demotions cannot both pass the check
+      const admins = await client.query("SELECT id FROM users WHERE role = 'admin' AND is_active = true FOR UPDATE");
+      if (admins.rows.length <= 1 && admins.rows.some((admin) => admin.id === userId)) {
+        throw new Error("Cannot remove the last admin");
+      }
+    }
+
+    const result = await client.query(
+      "UPDATE users SET role = $1 WHERE id = $2 RETURNING id, email, first_name, last_name, phone, role, is_active",
+      [roleName, userId]
+    );
+    return result.rows[0];
+  },
+};
@@ -0,0 +1,195 @@
+import { PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
+import { z } from "zod";
+import { orderService } from "./order.service";
+
+export const createShipmentSchema = z.object({
+  carrier: z.string().min(1, "Carrier is required"),
+  trackingNumber: z.string().min(1, "Tracking number is required"),
+  trackingUrl: z.string().url().optional(),
+  // Omit to ship every unit not yet shipped
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid("Invalid order item ID"),
+        quantity: z.number().int().positive("Quantity must be positive"),
+      })
+    )
+    .min(1)
+    .refine((items) => new Set(items.map((item) => item.orderItemId)).size === items.length, {
+      message: "Each order item can only be listed once",
+    })
+    .optional(),
+});
+
+export interface ShipmentItem {
+  id: string;
+  shipment_id: string;
+  order_item_id: string;
+  quantity: number;
+}
+
+export interface Shipment {
+  id: string;
+  order_id: string;
+  carrier: string;
+  tracking_number: string;
+  tracking_url: string | null;
+  status: string;
+  shipped_at: Date;
+  delivered_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  items?: ShipmentItem[];
+}
+
+/**
+ * Units of each order line not yet assigned to a shipment
+ */
+const getUnshippedQuantities = async (client: PoolClient, orderId: string) => {
+  const result = await client.query(
+    `SELECT oi.id, oi.quantity - COALESCE(SUM(si.quantity), 0) as remaining
+     FROM order_items oi
+     LEFT JOIN shipment_items si ON si.order_item_id = oi.id
+     WHERE oi.order_id = $1
+     GROUP BY oi.id, oi.quantity`,
+    [orderId]
+  );
+  return new Map<string, number>(result.rows.map((row) => [row.id, parseInt(row.remaining)]));
+};
+
+export const shipmentService = {
+  /**
+   * Create a shipment for some or all of an order's unshipped units
+   * 
+   * @param orderId - Order being fulfilled (must be processing)
+   * @param data - Carrier, tracking number and the lines in the parcel
+   * @param actorId - Staff member creating the shipment
+   * @returns Created shipment with its items
+   * @throws Error if the order cannot ship or a line is over-shipped
+   * 
+   * When every unit of the order has been shipped, the order moves to shipped.
+   */
+  async create(orderId: string, data: z.infer<typeof createShipmentSchema>, actorId?: string): Promise<Shipment> {
+    return withTransaction(async (client) => {
+      const orderResult = await client.query("SELECT status FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+      if (orderResult.rows.length === 0) {
+        throw new Error("Order not found");
+      }
+      if (orderResult.rows[0].status !== "processing") {
+        throw new Error("Only processing orders can be shipped");
+      }
+
+      const remaining = await getUnshippedQuantities(client, orderId);
+      const items =
+        data.items ||
+        Array.from(remaining.entries())
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+      if (items.length === 0) {
+        throw new Error("All items on this order have already been shipped");
+      }
+
+      for (const item of items) {
+        const available = remaining.get(item.orderItemId);
+        if (available === undefined) {
+          throw new Error("Order item not found");
+        }
+        if (item.quantity > available) {
+          throw new Error(`Only ${available} unit(s) of this item are left to ship`);
+        }
+        remaining.set(item.orderItemId, available - item.quantity);
+      }
+
+      const shipmentResult = await client.query(
+        `INSERT INTO shipments (order_id, carrier, tracking_number, tracking_url, created_by)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [orderId, data.carrier, data.trackingNumber, data.trackingUrl || null, actorId || null]
+      );
+      const shipment: Shipment = shipmentResult.rows[0];
+
+      shipment.items = [];
+      for (const item of items) {
+        const itemResult = await client.query(
+          "INSERT INTO shipment_items (shipment_id, order_item_id, quantity) VALUES ($1, $2, $3) RETURNING *",
+          [shipment.id, item.orderItemId, item.quantity]
+        );
+        shipment.items.push(itemResult.rows[0]);
+      }
+
+      // Every unit is now in a parcel
+      if (Array.from(remaining.values()).every((quantity) => quantity <= 0)) {
+        await orderService.transitionStatus(client, orderId, "shipped", {
+          actorId,
+          note: `All items shipped (${data.carrier} ${data.trackingNumber})`,
+        });
+      }
+
+      return shipment;
+    });
+  },
+
+  /**
+   * Mark a shipment as delivered
+   * 
+   * @throws Error if the shipment does not belong to the order
+   * 
+   * When the order has shipped in full and every shipment is delivered,
+   * the order moves to delivered.
+   */
+  async markDelivered(orderId: string, shipmentId: string, actorId?: string): Promise<Shipment> {
+    return withTransaction(async (client) => {
+      const orderResult = await client.query("SELECT status FROM orders WHERE id = $1 FOR UPDATE", [orderId]);
+      if (orderResult.rows.length === 0) {
+        throw new Error("Order not found");
+      }
+
+      const shipmentResult = await client.query(
+        `UPDATE shipments SET status = 'delivered', delivered_at = COALESCE(delivered_at, CURRENT_TIMESTAMP)
+         WHERE id = $1 AND order_id = $2
+         RETURNING *`,
+        [shipmentId, orderId]
+      );
+      if (shipmentResult.rows.length === 0) {
+        throw new Error("Shipment not found");
+      }
+
+      const pendingResult = await client.query(
+        "SELECT COUNT(*) as count FROM shipments WHERE order_id = $1 AND status != 'delivered'",
+        [orderId]
+      );
+      if (orderResult.rows[0].status === "shipped" && parseInt(pendingResult.rows[0].count) === 0) {
+        await orderService.transitionStatus(client, orderId, "delivered", {
+          actorId,
+          note: "All shipments delivered",
+        });
+      }
+
+      return shipmentResult.rows[0];
+    });
+  },
+
+  // Get shipments for an order with their items
+  async getByOrderId(orderId: string): Promise<Shipment[]> {
+    const shipmentsResult = await query(
+      "SELECT * FROM shipments WHERE order_id = $1 ORDER BY shipped_at, created_at",
+      [orderId]
+    );
+    if (shipmentsResult.rows.length === 0) {
+      return [];
+    }
+
+    const itemsResult = await query(
+      "SELECT si.* FROM shipment_items si JOIN shipments s ON si.shipment_id = s.id WHERE s.order_id = $1",
+      [orderId]
+    );
+
+    return shipmentsResult.rows.map((shipment) => ({
+      ...shipment,
+      items: itemsResult.rows.filter((item) => item.shipment_id === shipment.id),
+    }));
+  },
+};
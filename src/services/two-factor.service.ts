@@ -0,0 +1,368 @@
+/**
+ * Two-Factor Authentication Service
+ * 
+ * TOTP (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps) compatible with
+ * authenticator apps, plus single-use recovery codes. Enrolment is two-step:
+ * setup stores a pending secret, and 2FA is only enabled once a code from
+ * the app is confirmed. Accepted time steps are remembered so a code cannot
+ * be replayed.
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { query, withTransaction } from "../config/database";
+import { z } from "zod";
+
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || "2Square";
+// When enabled, staff (admins and any role granted a permission) must enrol in 2FA before they can finish logging in
+const REQUIRE_ADMIN_TWO_FACTOR = process.env.REQUIRE_ADMIN_TWO_FACTOR === "true";
+
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+const TOTP_WINDOW = 1; // Accept one step either side for clock drift
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const twoFactorCodeSchema = z.object({
+  code: z.string().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+/**
+ * A second factor: either a code from the authenticator app or a recovery code
+ */
+export const secondFactorSchema = z
+  .object({
+    code: z
+      .string()
+      .regex(/^\d{6}$/, "Code must be 6 digits")
+      .optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Either code or recoveryCode is required",
+  });
+
+export const disableTwoFactorSchema = z
+  .object({
+    password: z.string().min(1, "Password is required"),
+    code: z
+      .string()
+      .regex(/^\d{6}$/, "Code must be 6 digits")
+      .optional(),
+    recoveryCode: z.string().min(1).optional(),
+  })
+  .refine((data) => data.code || data.recoveryCode, {
+    message: "Either code or recoveryCode is required",
+  });
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error("Invalid base32 secret");
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+/**
+ * HOTP value (RFC 4226) for a counter
+ */
+const generateCode = (secret: string, counter: number) => {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return binary.toString().padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Find the time step a code belongs to
+ * 
+ * @returns The matching step, or null if the code is wrong or outside the window
+ */
+const matchTimeStep = (secret: string, code: string) => {
+  if (code.length !== TOTP_DIGITS) {
+    return null;
+  }
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const expected = generateCode(secret, currentStep + offset);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return currentStep + offset;
+    }
+  }
+  return null;
+};
+
+/**
+ * Recovery codes are compared case-insensitively and without separators
+ */
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * 
+ * @returns The plain codes (shown to the user once)
+ */
+const replaceRecoveryCodes = async (userId: string) => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await withTransaction(async (client) => {
+    await client.query("DELETE FROM two_factor_recovery_codes WHERE user_id = $1", [userId]);
+    for (const code of codes) {
+      await client.query("INSERT INTO two_factor_recovery_codes (user_id, code_hash) VALUES ($1, $2)", [
+        userId,
+        hashRecoveryCode(code),
+      ]);
+    }
+  });
+
+  return codes;
+};
+
+export const twoFactorService = {
+  /**
+   * Whether users with this role must use 2FA
+   * Decided by what the role can do rather than its name, so custom staff roles are covered.
+   */
+  async isRequiredForRole(role: string) {
+    if (!REQUIRE_ADMIN_TWO_FACTOR) {
+      return false;
+    }
+    if (role === "admin") {
+      return true;
+    }
+
+    const result = await query(
+      `SELECT EXISTS (
+         SELECT 1 FROM roles r JOIN role_permissions rp ON rp.role_id = r.id WHERE r.name = $1
+       ) AS has_permissions`,
+      [role]
+    );
+    return result.rows[0].has_permissions as boolean;
+  },
+
+  /**
+   * 2FA status of a user
+   */
+  async getStatus(userId: string) {
+    const result = await query(
+      `SELECT u.role, u.two_factor_enabled_at,
+              (SELECT COUNT(*)::int FROM two_factor_recovery_codes rc WHERE rc.user_id = u.id AND rc.used_at IS NULL)
+                AS recovery_codes_remaining
+       FROM users u WHERE u.id = $1`,
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+    const user = result.rows[0];
+    return {
+      enabled: !!user.two_factor_enabled_at,
+      enabledAt: user.two_factor_enabled_at,
+      required: await this.isRequiredForRole(user.role),
+      recoveryCodesRemaining: user.two_factor_enabled_at ? user.recovery_codes_remaining : 0,
+    };
+  },
+
+  /**
+   * Start enrolment: generate a secret for the authenticator app
+   * 
+   * @returns Base32 secret and otpauth:// URI (render the URI as a QR code)
+   * @throws Error if 2FA is already enabled
+   * 
+   * Calling setup again before confirming replaces the pending secret.
+   */
+  async beginSetup(userId: string) {
+    const result = await query("SELECT email, two_factor_enabled_at FROM users WHERE id = $1", [userId]);
+    if (result.rows.length === 0) {
+      throw new Error("User not found");
+    }
+
+    const user = result.rows[0];
+    if (user.two_factor_enabled_at) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+
+    const secret = base32Encode(crypto.randomBytes(20));
+    await query("UPDATE users SET two_factor_pending_secret = $1 WHERE id = $2", [secret, userId]);
+
+    const label = encodeURIComponent(`${TWO_FACTOR_ISSUER}:${user.email}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: TWO_FACTOR_ISSUER,
+      algorithm: "SHA1",
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_STEP_SECONDS),
+    });
+
+    return { secret, otpauthUri: `otpauth://totp/${label}?${params.toString()}` };
+  },
+
+  /**
+   * Finish enrolment by checking a code generated from the pending secret
+   * 
+   * @returns Recovery codes (shown once)
+   * @throws Error if there is no pending setup or the code is wrong
+   */
+  async confirmSetup(userId: string, code: string) {
+    const result = await query("SELECT two_factor_pending_secret, two_factor_enabled_at FROM users WHERE id = $1", [
+      userId,
+    ]);
+    const user = result.rows[0];
+    if (!user || user.two_factor_enabled_at) {
+      throw new Error("Two-factor authentication is already enabled");
+    }
+    if (!user.two_factor_pending_secret) {
+      throw new Error("Start two-factor setup first");
+    }
+
+    const step = matchTimeStep(user.two_factor_pending_secret, code);
+    if (step === null) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    await query(
+      `UPDATE users
+       SET two_factor_secret = two_factor_pending_secret,
+           two_factor_pending_secret = NULL,
+           two_factor_enabled_at = CURRENT_TIMESTAMP,
+           two_factor_last_used_step = $1
+       WHERE id = $2`,
+      [step, userId]
+    );
+
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    return { message: "Two-factor authentication enabled", recoveryCodes };
+  },
+
+  /**
+   * Check a second factor for a user with 2FA enabled
+   * 
+   * A matching authenticator code must belong to a newer time step than the
+   * last accepted one; a matching recovery code is used up.
+   * 
+   * @returns true if the code was accepted
+   */
+  async verify(userId: string, factor: { code?: string; recoveryCode?: string }) {
+    const result = await query(
+      "SELECT two_factor_secret, two_factor_last_used_step FROM users WHERE id = $1 AND two_factor_enabled_at IS NOT NULL",
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      return false;
+    }
+
+    const user = result.rows[0];
+
+    if (factor.code) {
+      const step = matchTimeStep(user.two_factor_secret, factor.code);
+      if (step === null) {
+        return false;
+      }
+      // Conditional update makes concurrent replays of the same code fail
+      const updated = await query(
+        `UPDATE users SET two_factor_last_used_step = $1
+         WHERE id = $2 AND (two_factor_last_used_step IS NULL OR two_factor_last_used_step < $1)`,
+        [step, userId]
+      );
+      return (updated.rowCount || 0) > 0;
+    }
+
+    if (factor.recoveryCode) {
+      const used = await query(
+        `UPDATE two_factor_recovery_codes SET used_at = CURRENT_TIMESTAMP
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL`,
+        [userId, hashRecoveryCode(factor.recoveryCode)]
+      );
+      return (used.rowCount || 0) > 0;
+    }
+
+    return false;
+  },
+
+  /**
+   * Turn 2FA off
+   * 
+   * @throws Error if the password or second factor is wrong, or 2FA is mandatory for the user's role
+   */
+  async disable(userId: string, data: z.infer<typeof disableTwoFactorSchema>) {
+    const result = await query("SELECT password_hash, role, two_factor_enabled_at FROM users WHERE id = $1", [userId]);
+    const user = result.rows[0];
+    if (!user || !user.two_factor_enabled_at) {
+      throw new Error("Two-factor authentication is not enabled");
+    }
+    if (await this.isRequiredForRole(user.role)) {
+      throw new Error("Two-factor authentication is required for staff accounts");
+    }
+
+    const isValidPassword = await bcrypt.compare(data.password, user.password_hash);
+    if (!isValidPassword) {
+      throw new Error("Password is incorrect");
+    }
+    if (!(await this.verify(userId, data))) {
+      throw new Error("Invalid two-factor code");
+    }
+
+    await withTransaction(async (client) => {
+      await client.query(
+        `UPDATE users
+         SET two_factor_secret = NULL, two_factor_pending_secret = NULL,
+             two_factor_enabled_at = NULL, two_factor_last_used_step = NULL
+         WHERE id = $1`,
+        [userId]
+      );
+      await client.query("DELETE FROM two_factor_recovery_codes WHERE user_id = $1", [userId]);
+    });
+
+    return { message: "Two-factor authentication disabled" };
+  },
+
+  /**
+   * Replace the recovery codes after checking an authenticator code
+   * 
+   * @throws Error if 2FA is not enabled or the code is wrong
+   */
+  async regenerateRecoveryCodes(userId: string, code: string) {
+    if (!(await this.verify(userId, { code }))) {
+      throw new Error("Invalid two-factor code");
+    }
+    const recoveryCodes = await replaceRecoveryCodes(userId);
+    return { recoveryCodes };
+  },
+};
@@ -1,4 +1,5 @@
-import { query } from "../config/database";
+import { query, withTransaction } from "../config/database";
+import { roleService } from "./role.service";
 
 export interface User {
   id: string;
@@ -8,14 +9,16 @@ export interface User {
   phone: string | null;
   role: string;
   is_active: boolean;
+  locked_until: Date | null;
+  deleted_at?: Date | null;
   created_at: Date;
 }
 
 export const userService = {
-  // Get all users (admin only)
+  // Get all users (requires users:read)
   async getAll(): Promise<User[]> {
     const result = await query(
-      "SELECT id, email, first_name, last_name, phone, role, is_active, created_at FROM users ORDER BY created_at DESC"
+      "SELECT id, email, first_name, last_name, phone, role, is_active, locked_until, created_at FROM users WHERE deleted_at IS NULL ORDER BY created_at DESC"
     );
     return result.rows;
   },
@@ -23,45 +26,140 @@ export const userService = {
   // Get user by ID
   async getById(id: string): Promise<User | null> {
     const result = await query(
-      "SELECT id, email, first_name, last_name, phone, role, is_active, created_at FROM users WHERE id = $1",
+      "SELECT id, email, first_name, last_name, phone, role, is_active, locked_until, created_at FROM users WHERE id = $1 AND deleted_at IS NULL",
       [id]
     );
     return result.rows.length > 0 ? result.rows[0] : null;
   },
 
-  // Update user (admin only)
+  // Update user (requires users:write; role changes also roles:manage)
+  // Neither a role change nor deactivation may leave the store without an active admin.
+  // Both changes are applied in one transaction, so a refused change leaves the user untouched.
   async update(id: string, data: { role?: string; isActive?: boolean }) {
-    const updates: string[] = [];
-    const values: any[] = [];
-    let paramCount = 1;
-
-    if (data.role !== undefined) {
-      updates.push(`role = $${paramCount++}`);
-      values.push(data.role);
-    }
-    if (data.isActive !== undefined) {
-      updates.push(`is_active = $${paramCount++}`);
-      values.push(data.isActive);
+    if (data.role === undefined && data.isActive === undefined) {
+      throw new Error("No fields to update");
     }
 
-    if (updates.length === 0) {
-      throw new Error("No fields to update");
+    return withTransaction(async (client) => {
+      const userResult = await client.query(
+        "SELECT id, role, is_active FROM users WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+        [id]
+      );
+      if (userResult.rows.length === 0) {
+        throw new Error("User not found");
+      }
+
+      // Role changes go through role assignment (checks the role exists, keeps the last admin)
+      if (data.role !== undefined) {
+        await roleService.assignRoleWith(client, id, data.role);
+      }
+
+      const role = data.role ?? userResult.rows[0].role;
+      if (data.isActive === false && userResult.rows[0].is_active && role === "admin") {
+        // Lock admin rows so two concurrent deactivations cannot both pass the check
+        const admins = await client.query("SELECT id FROM users WHERE role = 'admin' AND is_active = true FOR UPDATE");
+        if (admins.rows.length <= 1) {
+          throw new Error("Cannot deactivate the last admin");
+        }
+      }
+
+      const result = await client.query(
+        `UPDATE users SET is_active = COALESCE($1, is_active) WHERE id = $2
+         RETURNING id, email, first_name, last_name, phone, role, is_active, locked_until, created_at`,
+        [data.isActive ?? null, id]
+      );
+      return result.rows[0];
+    });
+  },
+
+  // Archive (soft delete) a user (requires users:write)
+  // The account is deactivated and signed out everywhere; orders and payments are kept.
+  async delete(id: string, actorId?: string) {
+    if (id === actorId) {
+      throw new Error("You cannot archive your own account");
     }
 
-    values.push(id);
+    return withTransaction(async (client) => {
+      const userResult = await client.query(
+        "SELECT id, role FROM users WHERE id = $1 AND deleted_at IS NULL FOR UPDATE",
+        [id]
+      );
+      if (userResult.rows.length === 0) {
+        throw new Error("User not found");
+      }
+
+      if (userResult.rows[0].role === "admin") {
+        // Lock admin rows so two concurrent archivals cannot both pass the check
+        const admins = await client.query("SELECT id FROM users WHERE role = 'admin' AND is_active = true FOR UPDATE");
+        if (admins.rows.length <= 1 && admins.rows.some((admin) => admin.id === id)) {
+          throw new Error("Cannot archive the last admin");
+        }
+      }
 
+      await client.query(
+        `UPDATE users
+         SET deleted_at = CURRENT_TIMESTAMP, active_before_archive = is_active, is_active = false,
+             token_version = token_version + 1
+         WHERE id = $1`,
+        [id]
+      );
+      await client.query(
+        "UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL",
+        [id]
+      );
+      await client.query("DELETE FROM cart WHERE user_id = $1", [id]);
+      return { message: "User archived successfully" };
+    });
+  },
+
+  // Archived users, most recently archived first (requires users:read)
+  async getArchived(): Promise<User[]> {
     const result = await query(
-      `UPDATE users SET ${updates.join(", ")} WHERE id = $${paramCount} RETURNING id, email, first_name, last_name, phone, role, is_active, created_at`,
-      values
+      `SELECT id, email, first_name, last_name, phone, role, is_active, locked_until, deleted_at, created_at
+       FROM users WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC`
     );
+    return result.rows;
+  },
 
+  // Restore an archived user (requires users:write)
+  // The account gets back the active state it had when archived, so a deactivated user stays deactivated.
+  async restore(id: string): Promise<User> {
+    const result = await query(
+      `UPDATE users
+       SET deleted_at = NULL, is_active = COALESCE(active_before_archive, is_active), active_before_archive = NULL
+       WHERE id = $1 AND deleted_at IS NOT NULL
+       RETURNING id, email, first_name, last_name, phone, role, is_active, locked_until, created_at`,
+      [id]
+    );
+    if (result.rows.length === 0) {
+      throw new Error("Archived user not found");
+    }
     return result.rows[0];
   },
 
-  // Delete user (admin only)
-  async delete(id: string) {
-    await query("DELETE FROM users WHERE id = $1", [id]);
-    return { message: "User deleted successfully" };
+  // Permanently delete an archived user (requires users:write)
+  // Refused while orders (and so payments) or refunds they issued reference the account.
+  async purge(id: string) {
+    return withTransaction(async (client) => {
+      const userResult = await client.query("SELECT id FROM users WHERE id = $1 AND deleted_at IS NOT NULL FOR UPDATE", [
+        id,
+      ]);
+      if (userResult.rows.length === 0) {
+        throw new Error("Archived user not found");
+      }
+
+      const financial = await client.query(
+        `SELECT EXISTS (SELECT 1 FROM orders WHERE user_id = $1) AS has_orders,
+                EXISTS (SELECT 1 FROM refunds WHERE actor_id = $1) AS has_refunds`,
+        [id]
+      );
+      if (financial.rows[0].has_orders || financial.rows[0].has_refunds) {
+        throw new Error("User has orders or refunds on record and cannot be purged");
+      }
+
+      await client.query("DELETE FROM users WHERE id = $1", [id]);
+      return { message: "User purged successfully" };
+    });
   },
 };
 
@@ -0,0 +1,415 @@
+/**
+ * Product Variant Service
+ * 
+ * Products that come in several versions (sizes, colours) declare option types
+ * (e.g. size: S, M, L) and one variant per combination. Each variant has its own
+ * SKU, stock and optionally its own price and images; a variant without a price
+ * sells at the product price.
+ * 
+ * For products with variants, stock is tracked per variant and the product's
+ * stock_quantity holds the total over its variants, so listings and stock
+ * reports keep working on the product row. Stock changes go through the
+ * inventory ledger (see inventory.service.ts).
+ */
+
+import { DatabaseError, PoolClient } from "pg";
+import { query, withTransaction } from "../config/database";
+import { adjustStock, heldQuantitySql } from "./inventory.service";
+import { z } from "zod";
+
+/**
+ * Zod validation schema for a product's option types
+ */
+export const productOptionsSchema = z.object({
+  options: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Option name is required").max(50),
+        values: z.array(z.string().trim().min(1).max(100)).min(1, "Option needs at least one value"),
+      })
+    )
+    .max(3, "A product can have at most 3 option types")
+    .refine((options) => new Set(options.map((option) => option.name.toLowerCase())).size === options.length, {
+      message: "Option names must be unique",
+    }),
+});
+
+/**
+ * Zod validation schema for creating a variant
+ * `options` maps each of the product's option names to one of its values, e.g. { size: "M", colour: "Black" }
+ */
+export const createVariantSchema = z.object({
+  sku: z.string().min(1, "SKU is required").max(100),
+  options: z.record(z.string().min(1)),
+  price: z.number().positive().optional(),
+  compareAtPrice: z.number().positive().optional(),
+  stockQuantity: z.number().int().min(0).default(0),
+  imageUrl: z.string().url().optional(),
+  images: z.array(z.string().url()).optional(),
+  isActive: z.boolean().default(true),
+  position: z.number().int().min(0).default(0),
+});
+
+export const updateVariantSchema = createVariantSchema.partial();
+
+export interface ProductOption {
+  id: string;
+  product_id: string;
+  name: string;
+  option_values: string[];
+  position: number;
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  options: Record<string, string>;
+  price: number | null;
+  compare_at_price: number | null;
+  stock_quantity: number;
+  image_url: string | null;
+  images: string[] | null;
+  is_active: boolean;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Check that a variant picks exactly one allowed value for each of the product's option types
+ * 
+ * @returns The options keyed by the product's option names
+ */
+const normalizeVariantOptions = (productOptions: ProductOption[], selected: Record<string, string>) => {
+  if (productOptions.length === 0) {
+    throw new Error("Define the product's option types before adding variants");
+  }
+
+  const names = productOptions.map((option) => option.name);
+  const selectedNames = Object.keys(selected);
+  const normalized: Record<string, string> = {};
+
+  for (const option of productOptions) {
+    const key = selectedNames.find((name) => name.toLowerCase() === option.name.toLowerCase());
+    if (!key) {
+      throw new Error(`Variant options must be exactly: ${names.join(", ")}`);
+    }
+    if (!option.option_values.includes(selected[key])) {
+      throw new Error(`Invalid ${option.name}: ${selected[key]}`);
+    }
+    normalized[option.name] = selected[key];
+  }
+
+  if (selectedNames.length !== names.length) {
+    throw new Error(`Variant options must be exactly: ${names.join(", ")}`);
+  }
+
+  return normalized;
+};
+
+/**
+ * Lock a product row for the rest of the transaction
+ * 
+ * @returns The product's current stock_quantity
+ * @throws Error if the product does not exist
+ */
+const lockProduct = async (client: PoolClient, productId: string): Promise<number> => {
+  const result = await client.query("SELECT stock_quantity FROM products WHERE id = $1 FOR UPDATE", [productId]);
+  if (result.rows.length === 0) {
+    throw new Error("Product not found");
+  }
+  return result.rows[0].stock_quantity;
+};
+
+const getOptionsWith = async (client: PoolClient, productId: string): Promise<ProductOption[]> => {
+  const result = await client.query("SELECT * FROM product_options WHERE product_id = $1 ORDER BY position, name", [
+    productId,
+  ]);
+  return result.rows;
+};
+
+export const variantService = {
+  /**
+   * Option types of a product, in display order
+   */
+  async getOptions(productId: string): Promise<ProductOption[]> {
+    const result = await query("SELECT * FROM product_options WHERE product_id = $1 ORDER BY position, name", [
+      productId,
+    ]);
+    return result.rows;
+  },
+
+  /**
+   * Variants of a product, in display order
+   * 
+   * @param includeInactive - Also return disabled variants (admin views)
+   */
+  async getByProductId(productId: string, includeInactive = false): Promise<ProductVariant[]> {
+    const result = await query(
+      `SELECT * FROM product_variants
+       WHERE product_id = $1${includeInactive ? "" : " AND is_active = true"}
+       ORDER BY position, created_at`,
+      [productId]
+    );
+    return result.rows;
+  },
+
+  async getById(productId: string, variantId: string): Promise<ProductVariant | null> {
+    const result = await query("SELECT * FROM product_variants WHERE id = $1 AND product_id = $2", [
+      variantId,
+      productId,
+    ]);
+    return result.rows.length > 0 ? result.rows[0] : null;
+  },
+
+  /**
+   * Replace a product's option types
+   * 
+   * @throws Error if an existing variant would no longer match the option types
+   */
+  async setOptions(productId: string, data: z.infer<typeof productOptionsSchema>) {
+    return withTransaction(async (client) => {
+      await lockProduct(client, productId);
+
+      const proposed: ProductOption[] = data.options.map((option, index) => ({
+        id: "",
+        product_id: productId,
+        name: option.name,
+        option_values: Array.from(new Set(option.values)),
+        position: index,
+      }));
+
+      const variants = await client.query("SELECT sku, options FROM product_variants WHERE product_id = $1", [
+        productId,
+      ]);
+      for (const variant of variants.rows) {
+        try {
+          normalizeVariantOptions(proposed, variant.options);
+        } catch (error: unknown) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(`Variant ${variant.sku} does not match the new options: ${reason}`);
+        }
+      }
+
+      await client.query("DELETE FROM product_options WHERE product_id = $1", [productId]);
+      for (const option of proposed) {
+        await client.query(
+          "INSERT INTO product_options (product_id, name, option_values, position) VALUES ($1, $2, $3, $4)",
+          [productId, option.name, option.option_values, option.position]
+        );
+      }
+
+      return getOptionsWith(client, productId);
+    });
+  },
+
+  /**
+   * Add a variant to a product
+   * The first variant takes over stock tracking: the product's own stock is
+   * written off, and the variant's initial stock is recorded as a restock.
+   * 
+   * @throws Error if the options are invalid, or the SKU or option combination is taken
+   */
+  async create(productId: string, data: z.infer<typeof createVariantSchema>, actorId?: string): Promise<ProductVariant> {
+    return withTransaction(async (client) => {
+      const productStock = await lockProduct(client, productId);
+      const options = normalizeVariantOptions(await getOptionsWith(client, productId), data.options);
+
+      const hadVariants = await client.query("SELECT 1 FROM product_variants WHERE product_id = $1 LIMIT 1", [
+        productId,
+      ]);
+      const existing = await client.query(
+        "SELECT sku FROM product_variants WHERE sku = $1 OR (product_id = $2 AND options = $3::jsonb)",
+        [data.sku, productId, JSON.stringify(options)]
+      );
+      if (existing.rows.length > 0) {
+        throw new Error(
+          existing.rows[0].sku === data.sku
+            ? "Variant with this SKU already exists"
+            : "A variant with these options already exists"
+        );
+      }
+
+      const result = await client.query(
+        `INSERT INTO product_variants (
+          product_id, sku, options, price, compare_at_price, stock_quantity, image_url, images, is_active, position
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *`,
+        [
+          productId,
+          data.sku,
+          JSON.stringify(options),
+          data.price || null,
+          data.compareAtPrice || null,
+          0,
+          data.imageUrl || null,
+          data.images || null,
+          data.isActive,
+          data.position,
+        ]
+      );
+      const variant: ProductVariant = result.rows[0];
+
+      if (hadVariants.rows.length === 0) {
+        await adjustStock(client, productId, null, -productStock, {
+          type: "adjustment",
+          reason: "Stock is now tracked per variant",
+          actorId,
+        });
+      }
+      const movement = await adjustStock(client, productId, variant.id, data.stockQuantity, {
+        type: "restock",
+        reason: "Initial stock",
+        actorId,
+      });
+
+      return { ...variant, stock_quantity: movement ? movement.balance_after : variant.stock_quantity };
+    });
+  },
+
+  /**
+   * Update a variant (partial update)
+   * A new stockQuantity is recorded as an adjustment of the difference.
+   * 
+   * @throws Error if the variant does not exist, the new options are invalid, or
+   * stock is set below the units held for pending orders
+   */
+  async update(productId: string, variantId: string, data: z.infer<typeof updateVariantSchema>, actorId?: string) {
+    return withTransaction(async (client) => {
+      await lockProduct(client, productId);
+      const current = await client.query(
+        "SELECT stock_quantity FROM product_variants WHERE id = $1 AND product_id = $2 FOR UPDATE",
+        [variantId, productId]
+      );
+      if (current.rows.length === 0) {
+        throw new Error("Variant not found");
+      }
+
+      const updates: string[] = [];
+      const values: unknown[] = [];
+      let paramCount = 1;
+
+      if (data.options !== undefined) {
+        const options = normalizeVariantOptions(await getOptionsWith(client, productId), data.options);
+        updates.push(`options = $${paramCount++}`);
+        values.push(JSON.stringify(options));
+      }
+      if (data.sku !== undefined) {
+        updates.push(`sku = $${paramCount++}`);
+        values.push(data.sku);
+      }
+      if (data.price !== undefined) {
+        updates.push(`price = $${paramCount++}`);
+        values.push(data.price);
+      }
+      if (data.compareAtPrice !== undefined) {
+        updates.push(`compare_at_price = $${paramCount++}`);
+        values.push(data.compareAtPrice);
+      }
+      if (data.imageUrl !== undefined) {
+        updates.push(`image_url = $${paramCount++}`);
+        values.push(data.imageUrl);
+      }
+      if (data.images !== undefined) {
+        updates.push(`images = $${paramCount++}`);
+        values.push(data.images);
+      }
+      if (data.isActive !== undefined) {
+        updates.push(`is_active = $${paramCount++}`);
+        values.push(data.isActive);
+      }
+      if (data.position !== undefined) {
+        updates.push(`position = $${paramCount++}`);
+        values.push(data.position);
+      }
+
+      if (updates.length === 0 && data.stockQuantity === undefined) {
+        throw new Error("No fields to update");
+      }
+
+      if (updates.length > 0) {
+        values.push(variantId, productId);
+        try {
+          await client.query(
+            `UPDATE product_variants SET ${updates.join(", ")}
+             WHERE id = $${paramCount} AND product_id = $${paramCount + 1}`,
+            values
+          );
+        } catch (error: unknown) {
+          // unique_violation on the SKU or the option combination
+          if (error instanceof DatabaseError && error.code === "23505") {
+            throw new Error("Another variant already has this SKU or these options");
+          }
+          throw error;
+        }
+      }
+
+      if (data.stockQuantity !== undefined) {
+        if (data.stockQuantity < current.rows[0].stock_quantity) {
+          const heldResult = await client.query(`SELECT ${heldQuantitySql("$1::uuid", "$2::uuid")} AS held`, [
+            productId,
+            variantId,
+          ]);
+          if (data.stockQuantity < heldResult.rows[0].held) {
+            throw new Error(`Cannot remove stock held for pending orders (${heldResult.rows[0].held} held)`);
+          }
+        }
+        await adjustStock(client, productId, variantId, data.stockQuantity - current.rows[0].stock_quantity, {
+          type: "adjustment",
+          reason: `Stock set to ${data.stockQuantity}`,
+          actorId,
+        });
+      }
+
+      const result = await client.query("SELECT * FROM product_variants WHERE id = $1", [variantId]);
+      return result.rows[0];
+    });
+  },
+
+  /**
+   * Delete a variant
+   * Cart lines for the variant are removed; order lines keep their snapshot.
+   * Its remaining stock is written off as an adjustment.
+   * 
+   * @throws Error if pending orders still hold stock of the variant
+   */
+  async delete(productId: string, variantId: string, actorId?: string) {
+    return withTransaction(async (client) => {
+      await lockProduct(client, productId);
+      const variant = await client.query(
+        "SELECT sku, stock_quantity FROM product_variants WHERE id = $1 AND product_id = $2 FOR UPDATE",
+        [variantId, productId]
+      );
+      if (variant.rows.length === 0) {
+        throw new Error("Variant not found");
+      }
+
+      // Holds would be deleted with the variant, so their orders could neither commit nor release them.
+      // Expired holds count too: they stay active until their order is paid or cancelled.
+      const heldResult = await client.query(
+        "SELECT COALESCE(SUM(quantity), 0)::int AS held FROM inventory_reservations WHERE variant_id = $1 AND status = 'active'",
+        [variantId]
+      );
+      if (heldResult.rows[0].held > 0) {
+        throw new Error(`Cannot delete a variant held for pending orders (${heldResult.rows[0].held} held)`);
+      }
+
+      await adjustStock(client, productId, variantId, -variant.rows[0].stock_quantity, {
+        type: "adjustment",
+        reason: `Variant ${variant.rows[0].sku} deleted`,
+        actorId,
+      });
+      await client.query("DELETE FROM product_variants WHERE id = $1", [variantId]);
+      return { message: "Variant deleted successfully" };
+    });
+  },
+
+  /**
+   * Whether a product has any variants (its stock is then managed per variant)
+   */
+  async hasVariants(productId: string) {
+    const result = await query("SELECT 1 FROM product_variants WHERE product_id = $1 LIMIT 1", [productId]);
+    return result.rows.length > 0;
+  },
+};